@@ -1,15 +1,60 @@
 import type { Cookie } from "playwright-core";
 import type { AvailableModelSchema } from "./src/types/models.js";
+import type { ToolCapability } from "./src/tools/tool.js";
 
 export type Config = {
   /**
    * Browserbase API Key to authenticate requests
+   * Required when using the "browserbase" provider
    */
-  browserbaseApiKey: string;
+  browserbaseApiKey?: string;
   /**
    * Browserbase Project ID associated with the API key
+   * Required when using the "browserbase" provider
    */
-  browserbaseProjectId: string;
+  browserbaseProjectId?: string;
+  /**
+   * The browser provider that backs new sessions
+   * - "browserbase": cloud browsers hosted by Browserbase
+   * - "local": a Chromium launched on this machine through Playwright
+   * - "cdp": an already-running browser reached through `cdpUrl`
+   *
+   * @default "cdp" when `cdpUrl` is set, otherwise "browserbase"
+   */
+  provider?: "browserbase" | "local" | "cdp";
+  /**
+   * Chrome DevTools Protocol endpoint of an already-running browser to attach to,
+   * e.g. a `chrome --remote-debugging-port=9222` instance or a browser container.
+   * Closing a session detaches from this browser instead of closing it.
+   *
+   * @example "http://localhost:9222"
+   */
+  cdpUrl?: string;
+  /**
+   * Hosts that sessions may attach to through their own `cdpEndpoint`, as
+   * `host` or `host:port` patterns with `*` wildcards. When unset, sessions
+   * can only use `cdpUrl`, so clients can't make the server connect to
+   * arbitrary hosts.
+   *
+   * @example ["localhost:9222", "*.browsers.internal"]
+   */
+  cdpEndpointAllowlist?: string[];
+  /**
+   * Options for the local Chromium provider
+   */
+  localBrowser?: {
+    /**
+     * Whether to run Chromium without a visible window
+     *
+     * @default true
+     */
+    headless?: boolean;
+    /**
+     * Path to a Chromium or Chrome executable.
+     * Defaults to the browser installed by `npx playwright install chromium`
+     */
+    executablePath?: string;
+  };
   /**
    * Whether or not to use Browserbase proxies
    * https://docs.browserbase.com/features/proxies
@@ -17,6 +62,23 @@ export type Config = {
    * @default false
    */
   proxies?: boolean;
+  /**
+   * Where the Browserbase proxy should exit. Only used when `proxies` is enabled.
+   * https://docs.browserbase.com/features/proxies#geolocation
+   *
+   * @example { country: "DE" }
+   */
+  proxyGeolocation?: {
+    /**
+     * Country code in ISO 3166-1 alpha-2 format
+     */
+    country: string;
+    /**
+     * US state code. The country must be US.
+     */
+    state?: string;
+    city?: string;
+  };
   /**
    * Use advanced stealth mode. Only available to Browserbase Scale Plan users.
    *
@@ -98,4 +160,260 @@ export type Config = {
    * Required when using a model other than the default google/gemini-2.0-flash
    */
   modelApiKey?: string;
+  /**
+   * User agent the browser reports instead of its own
+   */
+  userAgent?: string;
+  /**
+   * Browser locale, e.g. "de-DE". Sets navigator.language and the Accept-Language header.
+   */
+  locale?: string;
+  /**
+   * How JavaScript dialogs (alert, confirm, prompt and beforeunload) are
+   * answered: accepted or dismissed as they open, or queued until the agent
+   * answers them with browserbase_dialog. Sessions can override it.
+   *
+   * @default "dismiss"
+   */
+  dialogPolicy?: "accept" | "dismiss" | "queue";
+  /**
+   * Which tools to expose to clients. Disabled tools do not appear in tools/list.
+   * Patterns are matched against tool names and support `*` and `?` wildcards.
+   */
+  tools?: {
+    /**
+     * Only expose tools matching one of these patterns
+     *
+     * @default all tools
+     * @example ["browserbase_stagehand_*", "browserbase_screenshot"]
+     */
+    allow?: string[];
+    /**
+     * Hide tools matching one of these patterns. Takes precedence over `allow`.
+     *
+     * @example ["browserbase_screenshot"]
+     */
+    deny?: string[];
+  };
+  /**
+   * Only expose tools with one of these capabilities
+   * - core: navigate, act, extract, observe and list frames
+   * - sessions: create, list and close browser sessions
+   * - contexts: create, list, describe and delete Browserbase Contexts
+   * - cookies: get, set and clear the cookies of a live session
+   * - storage: export and import storage state snapshots
+   * - tabs: list, open, switch and close the tabs of a session
+   * - dialogs: list and answer JavaScript dialogs
+   * - uploads: set files on file inputs and file choosers
+   * - multi-session: the legacy multi_* tools, which also need `legacyMultiSessionTools`
+   * - vision: screenshots
+   *
+   * @default all capabilities
+   */
+  capabilities?: ToolCapability[];
+  /**
+   * Also expose the multi_* tools (e.g. `multi_browserbase_stagehand_navigate_session`)
+   * for clients written before every tool accepted a `sessionId`
+   *
+   * @default false
+   */
+  legacyMultiSessionTools?: boolean;
+  /**
+   * Directory where storage state snapshots are saved. With HTTP auth, each
+   * principal gets its own subdirectory; HTTP without auth can't save
+   * snapshots to disk, only keep them as per-connection resources.
+   *
+   * @default "~/.browserbase-mcp/storage-states"
+   */
+  storageStateDir?: string;
+  /**
+   * Directory that browserbase_upload_files may read files from by path.
+   * Paths are resolved inside it and cannot leave it. When unset, files can
+   * only be uploaded from base64 content or MCP resources.
+   */
+  uploadDir?: string;
+  /**
+   * Keep browser sessions running when the server exits, and reattach to them
+   * after a restart. Browserbase sessions are created with keep-alive so they
+   * outlive the connection, and the session registry is saved to
+   * `sessionStateFile`. Sessions of the local provider cannot be kept.
+   * Over HTTP, only sessions of authenticated callers are kept, and only the
+   * same caller can reattach them.
+   *
+   * @default false
+   */
+  persistSessions?: boolean;
+  /**
+   * File where detached and persisted sessions are recorded
+   *
+   * @default "~/.browserbase-mcp/sessions.json"
+   */
+  sessionStateFile?: string;
+  /**
+   * Make tabs that a page opens, such as popups and links with
+   * target="_blank", the active tab. When false, tools stay on the current
+   * tab and the new one is switched to with browserbase_tab_switch.
+   *
+   * @default true
+   */
+  focusPopups?: boolean;
+  /**
+   * Let act, observe and extract work inside iframes, through the frame
+   * parameter. This runs Stagehand in its experimental mode, which is beta
+   * and does not use the Stagehand API.
+   *
+   * @default false
+   */
+  frameTargeting?: boolean;
+  /**
+   * Authentication for the HTTP transport. When unset, HTTP requests are not authenticated.
+   * Unauthenticated requests get a 401 response with a WWW-Authenticate header.
+   */
+  auth?: {
+    /**
+     * Static bearer tokens. `principal` names the caller in logs and defaults to `token-<n>`.
+     */
+    tokens?: {
+      token: string;
+      principal?: string;
+    }[];
+    /**
+     * OAuth 2.1 resource server mode: accept JWT access tokens issued by `issuer`
+     */
+    oauth?: {
+      /**
+       * The authorization server that issues access tokens
+       *
+       * @example "https://auth.example.com"
+       */
+      issuer: string;
+      /**
+       * Where to fetch the issuer's signing keys.
+       * Discovered from the issuer's metadata when unset.
+       */
+      jwksUrl?: string;
+      /**
+       * Expected `aud` claim of access tokens
+       */
+      audience?: string;
+      /**
+       * Scopes every access token must carry
+       */
+      requiredScopes?: string[];
+    };
+  };
+  /**
+   * Whether a connection may supply its own `browserbaseApiKey`, `browserbaseProjectId`
+   * and `modelApiKey`, through the `X-Browserbase-Api-Key`, `X-Browserbase-Project-Id`
+   * and `X-Model-Api-Key` headers of its HTTP initialize request, or under
+   * `capabilities.experimental.browserbase` in its initialize params.
+   * - "require": every connection must bring its own credentials; the server's are never used
+   * - "allow": supplied credentials override the server's for that connection
+   * - "forbid": tool calls fail if a connection supplies credentials
+   *
+   * @default "allow"
+   */
+  credentialOverrides?: "require" | "allow" | "forbid";
+  /**
+   * Caps on concurrent browser sessions, counting both the active session and
+   * multi-session browsers. Unset limits are unlimited.
+   */
+  concurrency?: {
+    /**
+     * Maximum live browser sessions across all connections
+     */
+    maxSessions?: number;
+    /**
+     * Maximum live browser sessions per MCP connection
+     */
+    maxSessionsPerConnection?: number;
+    /**
+     * What to do when a limit is reached
+     * - "reject": fail session creation with an error naming the limit
+     * - "queue": wait for a session to close, up to `queueTimeout`
+     *
+     * @default "reject"
+     */
+    whenFull?: "reject" | "queue";
+    /**
+     * Seconds a queued request waits before failing. 0 waits indefinitely.
+     *
+     * @default 60
+     */
+    queueTimeout?: number;
+  };
+  /**
+   * Warm pool of pre-created sessions that session creation hands out instead of
+   * starting a new browser. Only requests using the server's own settings and
+   * credentials are served from the pool. Pooled sessions count against
+   * `concurrency.maxSessions`: the pool only fills free slots, and warm
+   * sessions are closed to make room for sessions it can't serve.
+   */
+  pool?: {
+    /**
+     * Number of warm sessions to keep ready. 0 disables the pool.
+     *
+     * @default 0
+     */
+    size?: number;
+    /**
+     * Seconds an unclaimed session stays in the pool before it is replaced.
+     * Keep this below your provider's session timeout.
+     *
+     * @default 240
+     */
+    ttl?: number;
+  };
+  /**
+   * Reattaching to a session's remote browser after its connection drops.
+   * Browserbase sessions are resumed by ID and CDP sessions reconnect to the
+   * same endpoint; local browsers cannot be reconnected. Tool calls for a
+   * reconnecting session wait until it is back or has been removed.
+   */
+  reconnect?: {
+    /**
+     * Number of reconnect attempts before the session is removed. 0 disables reconnecting.
+     *
+     * @default 3
+     */
+    attempts?: number;
+    /**
+     * Seconds before the first attempt, doubled after each failed attempt
+     *
+     * @default 1
+     */
+    delay?: number;
+  };
+  /**
+   * Limits after which the background reaper closes sessions, in seconds.
+   * Idle time counts from the last tool use. Set a limit to 0 to disable it.
+   */
+  timeouts?: {
+    /**
+     * Close browser sessions that no tool has used for this long
+     *
+     * @default 0
+     */
+    sessionIdle?: number;
+    /**
+     * Close browser sessions this long after they were created
+     */
+    sessionMaxLifetime?: number;
+    /**
+     * Close MCP HTTP sessions that have sent no request for this long
+     *
+     * @default 0
+     */
+    connectionIdle?: number;
+    /**
+     * Close MCP HTTP sessions this long after they were initialized
+     */
+    connectionMaxLifetime?: number;
+    /**
+     * How often the reaper checks for expired sessions
+     *
+     * @default 30
+     */
+    reaperInterval?: number;
+  };
 };
@@ -0,0 +1,197 @@
+import crypto from "node:crypto";
+import type http from "node:http";
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from "jose";
+import type { Config } from "../config.d.ts";
+
+/**
+ * The authenticated caller of an HTTP connection
+ */
+export type Principal = {
+  id: string; // token name or JWT subject, used for auditing and quotas
+  type: "token" | "oauth";
+  scopes: string[];
+  expiresAt?: number; // seconds since epoch
+  claims?: JWTPayload;
+};
+
+/**
+ * Raised when a request cannot be authenticated (401) or lacks scopes (403)
+ */
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public readonly status: 401 | 403,
+    // Omitted when the request carried no credentials at all (RFC 6750 section 3.1)
+    public readonly code?: "invalid_token" | "insufficient_scope",
+  ) {
+    super(message);
+  }
+}
+
+export type Authenticator = {
+  /**
+   * Authenticate a request, throwing an AuthError if it is not allowed
+   */
+  authenticate: (req: http.IncomingMessage) => Promise<Principal>;
+  /**
+   * OAuth protected resource metadata (RFC 9728), when OAuth is configured
+   */
+  resourceMetadata?: (resourceUrl: string) => Record<string, unknown>;
+};
+
+type AuthConfig = NonNullable<Config["auth"]>;
+type OAuthConfig = NonNullable<AuthConfig["oauth"]>;
+
+// Compare secrets without leaking their contents through timing
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) =>
+    crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+function bearerToken(req: http.IncomingMessage): string {
+  const header = req.headers.authorization;
+  if (!header) {
+    throw new AuthError("Missing Authorization header", 401);
+  }
+  const [type, token] = header.split(" ");
+  if (type.toLowerCase() !== "bearer" || !token) {
+    throw new AuthError(
+      "Invalid Authorization header format, expected 'Bearer TOKEN'",
+      401,
+      "invalid_token",
+    );
+  }
+  return token;
+}
+
+// Find the JWKS URL of an issuer through its authorization server metadata
+async function discoverJwksUrl(issuer: string): Promise<URL> {
+  const base = issuer.replace(/\/$/, "");
+  for (const wellKnown of [
+    "/.well-known/oauth-authorization-server",
+    "/.well-known/openid-configuration",
+  ]) {
+    const response = await fetch(`${base}${wellKnown}`).catch(() => null);
+    if (!response?.ok) continue;
+    const metadata = (await response.json()) as { jwks_uri?: string };
+    if (metadata.jwks_uri) return new URL(metadata.jwks_uri);
+  }
+  throw new Error(`Could not discover a JWKS URL for issuer ${issuer}`);
+}
+
+function tokenScopes(payload: JWTPayload): string[] {
+  if (typeof payload.scope === "string") return payload.scope.split(" ");
+  if (Array.isArray(payload.scp)) return payload.scp.map(String);
+  return [];
+}
+
+function createJwtVerifier(oauth: OAuthConfig) {
+  let jwks: ReturnType<typeof createRemoteJWKSet> | undefined;
+
+  return async (token: string): Promise<Principal> => {
+    jwks ??= createRemoteJWKSet(
+      oauth.jwksUrl
+        ? new URL(oauth.jwksUrl)
+        : await discoverJwksUrl(oauth.issuer),
+    );
+
+    let payload: JWTPayload;
+    try {
+      ({ payload } = await jwtVerify(token, jwks, {
+        issuer: oauth.issuer,
+        audience: oauth.audience,
+      }));
+    } catch (error) {
+      throw new AuthError(
+        `Invalid access token: ${error instanceof Error ? error.message : String(error)}`,
+        401,
+        "invalid_token",
+      );
+    }
+
+    const scopes = tokenScopes(payload);
+    const missing = (oauth.requiredScopes ?? []).filter(
+      (scope) => !scopes.includes(scope),
+    );
+    if (missing.length > 0) {
+      throw new AuthError(
+        `Missing required scopes: ${missing.join(", ")}`,
+        403,
+        "insufficient_scope",
+      );
+    }
+
+    return {
+      id: String(payload.sub ?? payload.client_id ?? "unknown"),
+      type: "oauth",
+      scopes,
+      expiresAt: payload.exp,
+      claims: payload,
+    };
+  };
+}
+
+/**
+ * Create an authenticator from the auth config, or null when auth is disabled
+ */
+export function createAuthenticator(
+  auth: Config["auth"],
+): Authenticator | null {
+  const tokens = auth?.tokens ?? [];
+  const oauth = auth?.oauth;
+  if (tokens.length === 0 && !oauth) return null;
+
+  const verifyJwt = oauth ? createJwtVerifier(oauth) : null;
+
+  return {
+    authenticate: async (req) => {
+      const token = bearerToken(req);
+
+      const match = tokens.find((entry) => safeEqual(entry.token, token));
+      if (match) {
+        return {
+          id: match.principal ?? `token-${tokens.indexOf(match) + 1}`,
+          type: "token",
+          scopes: [],
+        };
+      }
+
+      if (verifyJwt) return verifyJwt(token);
+
+      throw new AuthError("Invalid bearer token", 401, "invalid_token");
+    },
+    ...(oauth && {
+      resourceMetadata: (resourceUrl: string) => ({
+        resource: resourceUrl,
+        authorization_servers: [oauth.issuer],
+        bearer_methods_supported: ["header"],
+        ...(oauth.requiredScopes && {
+          scopes_supported: oauth.requiredScopes,
+        }),
+      }),
+    }),
+  };
+}
+
+/**
+ * Build the WWW-Authenticate header value for a failed request
+ */
+export function wwwAuthenticate(
+  error: AuthError,
+  resourceMetadataUrl?: string,
+): string {
+  const params = [
+    `realm="browserbase-mcp"`,
+    ...(error.code
+      ? [
+          `error="${error.code}"`,
+          `error_description="${error.message.replace(/"/g, "'")}"`,
+        ]
+      : []),
+    ...(resourceMetadataUrl
+      ? [`resource_metadata="${resourceMetadataUrl}"`]
+      : []),
+  ];
+  return `Bearer ${params.join(", ")}`;
+}
@@ -1,28 +1,68 @@
-import type { Cookie } from "playwright-core";
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
 import type { Config } from "../config.d.ts";
 import type { AvailableModel } from "./types/models.js";
+import { resolveProviderName } from "./providers/index.js";
+import { configObjectSchema, configSchema } from "./index.js";
 
-export type ToolCapability = "core" | string;
+export type { ToolCapability } from "./tools/tool.js";
 
 // Define Command Line Options Structure
 export type CLIOptions = {
+  config?: string;
+  browserbaseApiKey?: string;
+  browserbaseProjectId?: string;
+  provider?: Config["provider"];
+  headless?: boolean | string;
+  executablePath?: string;
+  cdpEndpoint?: string;
+  cdpEndpointAllowlist?: string;
   proxies?: boolean;
+  proxyCountry?: string;
+  userAgent?: string;
+  locale?: string;
+  dialogPolicy?: Config["dialogPolicy"];
   advancedStealth?: boolean;
   contextId?: string;
-  persist?: boolean;
-  port?: number;
+  persist?: boolean | string;
+  port?: number | string;
   host?: string;
-  cookies?: Cookie[];
-  browserWidth?: number;
-  browserHeight?: number;
+  cookies?: string | boolean;
+  browserWidth?: number | string;
+  browserHeight?: number | string;
   modelName?: typeof AvailableModel;
   modelApiKey?: string;
+  tools?: string;
+  excludeTools?: string;
+  capabilities?: string;
+  legacyMultiSessionTools?: boolean;
+  storageStateDir?: string;
+  uploadDir?: string;
+  frameTargeting?: boolean;
+  persistSessions?: boolean;
+  sessionStateFile?: string;
+  focusPopups?: boolean | string;
+  credentialOverrides?: Config["credentialOverrides"];
+  maxSessions?: number | string;
+  maxSessionsPerConnection?: number | string;
+  whenFull?: "reject" | "queue";
+  queueTimeout?: number | string;
+  poolSize?: number | string;
+  poolTtl?: number | string;
+  reconnectAttempts?: number | string;
+  sessionIdleTimeout?: number | string;
+  sessionMaxLifetime?: number | string;
+  connectionIdleTimeout?: number | string;
+  connectionMaxLifetime?: number | string;
+  oauthIssuer?: string;
+  oauthJwksUrl?: string;
+  oauthAudience?: string;
 };
 
 // Default Configuration Values
 const defaultConfig: Config = {
-  browserbaseApiKey: process.env.BROWSERBASE_API_KEY ?? "",
-  browserbaseProjectId: process.env.BROWSERBASE_PROJECT_ID ?? "",
   proxies: false,
   server: {
     port: undefined,
@@ -34,43 +74,254 @@ const defaultConfig: Config = {
   },
   cookies: undefined,
   modelName: "google/gemini-2.0-flash", // Default Model
+  timeouts: {
+    sessionIdle: 0,
+    connectionIdle: 0,
+    reaperInterval: 30,
+  },
 };
 
-// Resolve final configuration by merging defaults, file config, and CLI options
+// Resolve final configuration by merging defaults, file config, environment and CLI options
 export async function resolveConfig(cliOptions: CLIOptions): Promise<Config> {
+  const fileConfig = cliOptions.config
+    ? await configFromFile(cliOptions.config)
+    : {};
+  const envConfig = configFromEnv(process.env);
   const cliConfig = await configFromCLIOptions(cliOptions);
-  // Order: Defaults < File Config < CLI Overrides
-  const mergedConfig = mergeConfig(defaultConfig, cliConfig);
 
-  // --- Add Browserbase Env Vars ---
-  if (!mergedConfig.modelApiKey) {
-    mergedConfig.modelApiKey = process.env.GEMINI_API_KEY;
+  // Order: Defaults < File Config < Environment < CLI Overrides
+  const mergedConfig = [fileConfig, envConfig, cliConfig].reduce(
+    (merged, overrides) => mergeConfig(merged, overrides),
+    defaultConfig,
+  );
+  mergedConfig.provider = resolveProviderName(mergedConfig);
+
+  validateConfig(mergedConfig);
+  return mergedConfig;
+}
+
+/**
+ * Validate the final configuration, reporting every problem at once
+ */
+function validateConfig(config: Config): void {
+  const result = configSchema.safeParse(config);
+  const issues = result.success ? [] : formatIssues(result.error);
+
+  if (!config.modelApiKey && config.credentialOverrides !== "require") {
+    issues.push(
+      "  - modelApiKey: Required. Set MODEL_API_KEY or GEMINI_API_KEY, or pass --modelApiKey",
+    );
   }
 
-  // --------------------------------
+  if (issues.length > 0) {
+    throw new Error(`Invalid configuration:\n${issues.join("\n")}`);
+  }
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(
+    (issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+  );
+}
+
+/**
+ * Load a JSON or YAML configuration file and validate it against the config schema
+ */
+export async function configFromFile(filePath: string): Promise<Config> {
+  const resolvedPath = path.resolve(filePath);
 
-  // Basic validation for Browserbase keys - provide dummy values if not set
-  if (!mergedConfig.browserbaseApiKey) {
-    console.warn(
-      "Warning: BROWSERBASE_API_KEY environment variable not set. Using dummy value.",
+  let raw: unknown;
+  try {
+    const text = await fs.promises.readFile(resolvedPath, "utf8");
+    raw = /\.ya?ml$/i.test(resolvedPath) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Could not read config file ${resolvedPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
     );
-    mergedConfig.browserbaseApiKey = "dummy-browserbase-api-key";
   }
-  if (!mergedConfig.browserbaseProjectId) {
-    console.warn(
-      "Warning: BROWSERBASE_PROJECT_ID environment variable not set. Using dummy value.",
+
+  // Every option is optional in the file; the merged result is validated later
+  const result = deepStrict(configObjectSchema.partial()).safeParse(raw ?? {});
+  if (!result.success) {
+    throw new Error(
+      `Invalid config file ${resolvedPath}:\n${formatIssues(result.error).join("\n")}`,
     );
-    mergedConfig.browserbaseProjectId = "dummy-browserbase-project-id";
   }
 
-  if (!mergedConfig.modelApiKey) {
-    console.warn(
-      "Warning: MODEL_API_KEY environment variable not set. Using dummy value.",
+  return result.data as Config;
+}
+
+// The schema with unknown keys rejected in nested objects too, so a typo
+// like timeouts.sessionIdel fails instead of being dropped
+function deepStrict<T extends z.ZodTypeAny>(schema: T): T {
+  if (schema instanceof z.ZodObject) {
+    const shape = Object.fromEntries(
+      Object.entries(schema.shape as z.ZodRawShape).map(([key, value]) => [
+        key,
+        deepStrict(value),
+      ]),
     );
-    mergedConfig.modelApiKey = "dummy-api-key";
+    return new z.ZodObject({
+      ...schema._def,
+      shape: () => shape,
+      unknownKeys: "strict",
+    }) as unknown as T;
   }
+  if (schema instanceof z.ZodOptional) {
+    return new z.ZodOptional({
+      ...schema._def,
+      innerType: deepStrict(schema._def.innerType),
+    }) as unknown as T;
+  }
+  if (schema instanceof z.ZodArray) {
+    return new z.ZodArray({
+      ...schema._def,
+      type: deepStrict(schema.element),
+    }) as unknown as T;
+  }
+  return schema;
+}
 
-  return mergedConfig;
+// Parse a boolean env var, leaving unrecognized values for the schema to reject
+function envBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (["true", "1", "yes"].includes(value.toLowerCase())) return true;
+  if (["false", "0", "no"].includes(value.toLowerCase())) return false;
+  return value as unknown as boolean;
+}
+
+// Split a comma-separated env var or CLI option into a list
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+// Parse a numeric env var or CLI option, leaving invalid values for the schema to reject
+function envNumber(value: string | number | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+// Parse a JSON-valued env var or CLI option
+function parseJSONOption<T>(
+  name: string,
+  value: string | boolean | undefined,
+): T | undefined {
+  if (typeof value !== "string") return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`Invalid configuration:\n  - ${name}: must be valid JSON`);
+  }
+}
+
+// Parse a comma-separated list of bearer tokens, each either `token` or `principal=token`
+function parseTokens(
+  value: string | undefined,
+): NonNullable<Config["auth"]>["tokens"] {
+  return parseList(value)?.map((entry) => {
+    const separator = entry.indexOf("=");
+    return separator > 0
+      ? {
+          principal: entry.slice(0, separator),
+          token: entry.slice(separator + 1),
+        }
+      : { token: entry };
+  });
+}
+
+// Create Config structure based on environment variables
+export function configFromEnv(env: NodeJS.ProcessEnv): Config {
+  return {
+    browserbaseApiKey: env.BROWSERBASE_API_KEY,
+    browserbaseProjectId: env.BROWSERBASE_PROJECT_ID,
+    provider: env.BROWSERBASE_PROVIDER as Config["provider"],
+    cdpUrl: env.BROWSERBASE_CDP_URL,
+    cdpEndpointAllowlist: parseList(env.BROWSERBASE_CDP_ENDPOINT_ALLOWLIST),
+    localBrowser: {
+      headless: envBoolean(env.BROWSERBASE_LOCAL_HEADLESS),
+      executablePath: env.BROWSERBASE_LOCAL_EXECUTABLE_PATH,
+    },
+    server: {
+      port: envNumber(env.BROWSERBASE_PORT),
+      host: env.BROWSERBASE_HOST,
+    },
+    proxies: envBoolean(env.BROWSERBASE_PROXIES),
+    proxyGeolocation: env.BROWSERBASE_PROXY_COUNTRY
+      ? { country: env.BROWSERBASE_PROXY_COUNTRY }
+      : undefined,
+    userAgent: env.BROWSERBASE_USER_AGENT,
+    locale: env.BROWSERBASE_LOCALE,
+    dialogPolicy: env.BROWSERBASE_DIALOG_POLICY as Config["dialogPolicy"],
+    context: {
+      contextId: env.BROWSERBASE_CONTEXT_ID,
+      persist: envBoolean(env.BROWSERBASE_PERSIST),
+    },
+    viewPort: {
+      browserWidth: envNumber(env.BROWSERBASE_BROWSER_WIDTH),
+      browserHeight: envNumber(env.BROWSERBASE_BROWSER_HEIGHT),
+    },
+    advancedStealth: envBoolean(env.BROWSERBASE_ADVANCED_STEALTH),
+    cookies: parseJSONOption("BROWSERBASE_COOKIES", env.BROWSERBASE_COOKIES),
+    modelName: env.BROWSERBASE_MODEL_NAME as Config["modelName"],
+    modelApiKey: env.MODEL_API_KEY ?? env.GEMINI_API_KEY,
+    tools: {
+      allow: parseList(env.BROWSERBASE_TOOLS),
+      deny: parseList(env.BROWSERBASE_EXCLUDE_TOOLS),
+    },
+    capabilities: parseList(
+      env.BROWSERBASE_CAPABILITIES,
+    ) as Config["capabilities"],
+    legacyMultiSessionTools: envBoolean(
+      env.BROWSERBASE_LEGACY_MULTI_SESSION_TOOLS,
+    ),
+    storageStateDir: env.BROWSERBASE_STORAGE_STATE_DIR,
+    uploadDir: env.BROWSERBASE_UPLOAD_DIR,
+    frameTargeting: envBoolean(env.BROWSERBASE_FRAME_TARGETING),
+    persistSessions: envBoolean(env.BROWSERBASE_PERSIST_SESSIONS),
+    sessionStateFile: env.BROWSERBASE_SESSION_STATE_FILE,
+    focusPopups: envBoolean(env.BROWSERBASE_FOCUS_POPUPS),
+    credentialOverrides:
+      env.BROWSERBASE_CREDENTIAL_OVERRIDES as Config["credentialOverrides"],
+    concurrency: {
+      maxSessions: envNumber(env.BROWSERBASE_MAX_SESSIONS),
+      maxSessionsPerConnection: envNumber(
+        env.BROWSERBASE_MAX_SESSIONS_PER_CONNECTION,
+      ),
+      whenFull: env.BROWSERBASE_WHEN_FULL as "reject" | "queue" | undefined,
+      queueTimeout: envNumber(env.BROWSERBASE_QUEUE_TIMEOUT),
+    },
+    pool: {
+      size: envNumber(env.BROWSERBASE_POOL_SIZE),
+      ttl: envNumber(env.BROWSERBASE_POOL_TTL),
+    },
+    reconnect: {
+      attempts: envNumber(env.BROWSERBASE_RECONNECT_ATTEMPTS),
+      delay: envNumber(env.BROWSERBASE_RECONNECT_DELAY),
+    },
+    timeouts: {
+      sessionIdle: envNumber(env.BROWSERBASE_SESSION_IDLE_TIMEOUT),
+      sessionMaxLifetime: envNumber(env.BROWSERBASE_SESSION_MAX_LIFETIME),
+      connectionIdle: envNumber(env.BROWSERBASE_CONNECTION_IDLE_TIMEOUT),
+      connectionMaxLifetime: envNumber(env.BROWSERBASE_CONNECTION_MAX_LIFETIME),
+      reaperInterval: envNumber(env.BROWSERBASE_REAPER_INTERVAL),
+    },
+    auth: {
+      tokens: parseTokens(env.BROWSERBASE_AUTH_TOKENS),
+      oauth: env.BROWSERBASE_OAUTH_ISSUER
+        ? {
+            issuer: env.BROWSERBASE_OAUTH_ISSUER,
+            jwksUrl: env.BROWSERBASE_OAUTH_JWKS_URL,
+            audience: env.BROWSERBASE_OAUTH_AUDIENCE,
+            requiredScopes: parseList(env.BROWSERBASE_OAUTH_SCOPES),
+          }
+        : undefined,
+    },
+  };
 }
 
 // Create Config structure based on CLI options
@@ -78,25 +329,97 @@ export async function configFromCLIOptions(
   cliOptions: CLIOptions,
 ): Promise<Config> {
   return {
-    browserbaseApiKey: process.env.BROWSERBASE_API_KEY ?? "",
-    browserbaseProjectId: process.env.BROWSERBASE_PROJECT_ID ?? "",
+    browserbaseApiKey: cliOptions.browserbaseApiKey,
+    browserbaseProjectId: cliOptions.browserbaseProjectId,
+    provider: cliOptions.provider,
+    cdpUrl: cliOptions.cdpEndpoint,
+    cdpEndpointAllowlist: parseList(cliOptions.cdpEndpointAllowlist),
+    localBrowser: {
+      headless:
+        cliOptions.headless === undefined
+          ? undefined
+          : cliOptions.headless !== false && cliOptions.headless !== "false",
+      executablePath: cliOptions.executablePath,
+    },
     server: {
-      port: cliOptions.port,
+      port: cliOptions.port === undefined ? undefined : +cliOptions.port,
       host: cliOptions.host,
     },
     proxies: cliOptions.proxies,
+    proxyGeolocation: cliOptions.proxyCountry
+      ? { country: cliOptions.proxyCountry }
+      : undefined,
+    userAgent: cliOptions.userAgent,
+    locale: cliOptions.locale,
+    dialogPolicy: cliOptions.dialogPolicy,
     context: {
       contextId: cliOptions.contextId,
-      persist: cliOptions.persist,
+      persist:
+        cliOptions.persist === undefined
+          ? undefined
+          : cliOptions.persist !== false && cliOptions.persist !== "false",
     },
     viewPort: {
-      browserWidth: cliOptions.browserWidth,
-      browserHeight: cliOptions.browserHeight,
+      browserWidth:
+        cliOptions.browserWidth === undefined
+          ? undefined
+          : +cliOptions.browserWidth,
+      browserHeight:
+        cliOptions.browserHeight === undefined
+          ? undefined
+          : +cliOptions.browserHeight,
     },
     advancedStealth: cliOptions.advancedStealth,
-    cookies: cliOptions.cookies,
+    cookies: parseJSONOption("--cookies", cliOptions.cookies),
     modelName: cliOptions.modelName,
     modelApiKey: cliOptions.modelApiKey,
+    tools: {
+      allow: parseList(cliOptions.tools),
+      deny: parseList(cliOptions.excludeTools),
+    },
+    capabilities: parseList(cliOptions.capabilities) as Config["capabilities"],
+    legacyMultiSessionTools: cliOptions.legacyMultiSessionTools,
+    storageStateDir: cliOptions.storageStateDir,
+    uploadDir: cliOptions.uploadDir,
+    frameTargeting: cliOptions.frameTargeting,
+    persistSessions: cliOptions.persistSessions,
+    sessionStateFile: cliOptions.sessionStateFile,
+    focusPopups:
+      cliOptions.focusPopups === undefined
+        ? undefined
+        : cliOptions.focusPopups !== false &&
+          cliOptions.focusPopups !== "false",
+    credentialOverrides: cliOptions.credentialOverrides,
+    concurrency: {
+      maxSessions: envNumber(cliOptions.maxSessions),
+      maxSessionsPerConnection: envNumber(cliOptions.maxSessionsPerConnection),
+      whenFull: cliOptions.whenFull,
+      queueTimeout: envNumber(cliOptions.queueTimeout),
+    },
+    pool: {
+      size: envNumber(cliOptions.poolSize),
+      ttl: envNumber(cliOptions.poolTtl),
+    },
+    reconnect: {
+      attempts: envNumber(cliOptions.reconnectAttempts),
+    },
+    timeouts: {
+      sessionIdle: envNumber(cliOptions.sessionIdleTimeout),
+      sessionMaxLifetime: envNumber(cliOptions.sessionMaxLifetime),
+      connectionIdle: envNumber(cliOptions.connectionIdleTimeout),
+      connectionMaxLifetime: envNumber(cliOptions.connectionMaxLifetime),
+    },
+    // Bearer tokens are only read from the config file or environment,
+    // since command-line arguments are visible to other local users
+    auth: {
+      oauth: cliOptions.oauthIssuer
+        ? {
+            issuer: cliOptions.oauthIssuer,
+            jwksUrl: cliOptions.oauthJwksUrl,
+            audience: cliOptions.oauthAudience,
+          }
+        : undefined,
+    },
   };
 }
 
@@ -108,39 +431,38 @@ function pickDefined<T extends object>(obj: T | undefined): Partial<T> {
   ) as Partial<T>;
 }
 
-// Merge two configuration objects (overrides takes precedence)
-function mergeConfig(base: Config, overrides: Config): Config {
-  const baseFiltered = pickDefined(base);
-  const overridesFiltered = pickDefined(overrides);
-
-  // Create the result object
-  const result = { ...baseFiltered } as Config;
-
-  // For each property in overrides
-  for (const [key, value] of Object.entries(overridesFiltered)) {
-    if (key === "context" && value && result.context) {
-      // Special handling for context object to ensure deep merge
-      result.context = {
-        ...result.context,
-        ...(value as Config["context"]),
-      };
-    } else if (
-      value &&
-      typeof value === "object" &&
-      !Array.isArray(value) &&
-      result[key as keyof Config] &&
-      typeof result[key as keyof Config] === "object"
-    ) {
-      // Deep merge for other nested objects
-      result[key as keyof Config] = {
-        ...(result[key as keyof Config] as object),
-        ...value,
-      } as unknown;
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Deep merge two objects (overrides take precedence). Nested objects that end
+// up empty are left out, so a layer with no values never adds an empty section.
+function mergeObjects(
+  base: Record<string, unknown>,
+  overrides: Record<string, unknown>,
+): Record<string, unknown> {
+  const result = pickDefined(base);
+
+  for (const [key, value] of Object.entries(pickDefined(overrides))) {
+    if (isPlainObject(value)) {
+      const existing = result[key];
+      const merged = mergeObjects(
+        isPlainObject(existing) ? existing : {},
+        value,
+      );
+      if (Object.keys(merged).length > 0 || existing !== undefined) {
+        result[key] = merged;
+      }
     } else {
       // Simple override for primitives, arrays, etc.
-      result[key as keyof Config] = value as unknown;
+      result[key] = value;
     }
   }
 
   return result;
 }
+
+// Merge two configuration objects (overrides takes precedence)
+function mergeConfig(base: Config, overrides: Partial<Config>): Config {
+  return mergeObjects(base, overrides) as Config;
+}
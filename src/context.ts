@@ -2,18 +2,132 @@ import type { Stagehand } from "@browserbasehq/stagehand";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import type { Config } from "../config.d.ts";
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
-import { listResources, readResource } from "./mcp/resources.js";
-import { getSession, defaultSessionId } from "./sessionManager.js";
-import type { MCPTool, BrowserSession } from "./types/types.js";
+import {
+  dropScreenshots,
+  listResources,
+  readResource,
+} from "./mcp/resources.js";
+import { randomUUID } from "crypto";
+import * as sessionRegistry from "./sessionRegistry.js";
+import type {
+  MCPTool,
+  BrowserSession,
+  ToolActionResult,
+} from "./types/types.js";
+import { getProvider, type LiveView } from "./providers/index.js";
+import type { Principal } from "./auth.js";
+import type { ConnectionOptions } from "./server.js";
+import {
+  applyCredentials,
+  assertCredentialPolicy,
+  redactSecrets,
+  type ConnectionCredentials,
+} from "./credentials.js";
+import { toolCalls, toolCallDuration } from "./metrics.js";
+import { cancelQueued } from "./quota.js";
+import {
+  SNAPSHOT_URI_PREFIX,
+  dropSnapshotResources,
+  listSnapshotResources,
+  readSnapshotResource,
+} from "./storageState.js";
+import { reattachLatest, reattachSession } from "./persistedSessions.js";
+import { syncActiveTab } from "./tabs.js";
+import { onDialogQueued, takeDialogNotices } from "./dialogs.js";
+import {
+  browserSessionLifetime,
+  expiryReason,
+  registerReapTask,
+} from "./reaper.js";
 
 export class Context {
-  public readonly config: Config;
+  // Server-wide configuration, before this connection's credentials are applied
+  private readonly serverConfig: Config;
+  private credentials: ConnectionCredentials;
+  /** Unique ID of the MCP connection this context serves */
+  public readonly id: string = randomUUID();
+  /** Authenticated caller of this connection, when HTTP auth is enabled */
+  public readonly principal?: Principal;
+  // Whether this is the local client of a stdio server
+  private readonly stdio: boolean;
   private server: Server;
-  public currentSessionId: string = defaultSessionId;
+  /** The session tools act on by default. Created on first use when unset. */
+  public currentSessionId?: string;
+  // Creation of the current session, shared by concurrent tool calls
+  private pendingSession?: Promise<BrowserSession>;
+  // Whether this connection already carried on with a session kept at the last exit
+  private resumedPersisted = false;
+  private unregisterReapTask: () => void;
 
-  constructor(server: Server, config: Config) {
+  constructor(
+    server: Server,
+    config: Config,
+    connection: ConnectionOptions = {},
+  ) {
     this.server = server;
-    this.config = config;
+    this.serverConfig = config;
+    this.principal = connection.principal;
+    this.stdio = connection.stdio ?? false;
+    this.credentials = connection.credentials ?? {};
+    this.unregisterReapTask = registerReapTask(() =>
+      this.closeExpiredSessions(),
+    );
+  }
+
+  /**
+   * The configuration for this connection, with its own credentials applied
+   */
+  public get config(): Config {
+    return applyCredentials(this.serverConfig, this.credentials);
+  }
+
+  /**
+   * Add credentials sent in the initialize params. Values already supplied
+   * through HTTP headers take precedence.
+   */
+  public addCredentials(credentials: ConnectionCredentials): void {
+    this.credentials = { ...credentials, ...this.credentials };
+  }
+
+  /**
+   * Close every browser session owned by this connection
+   */
+  public async close(): Promise<void> {
+    this.unregisterReapTask();
+    cancelQueued(this.id);
+    dropSnapshotResources(this.id);
+    dropScreenshots(this.id);
+    await sessionRegistry.removeAll(this.id);
+  }
+
+  /**
+   * Close this connection's browser sessions that are past their idle timeout
+   * or maximum lifetime, and tell the client which ones were closed
+   */
+  private async closeExpiredSessions(): Promise<void> {
+    const lifetime = browserSessionLifetime(this.config);
+
+    const expired: { id: string; reason: string }[] = [];
+    for (const session of sessionRegistry.list(this.id)) {
+      const reason = expiryReason(session, lifetime);
+      if (!reason) continue;
+      await sessionRegistry.remove(session.id);
+      expired.push({ id: session.id, reason });
+    }
+
+    for (const { id, reason } of expired) {
+      const message = `Closed browser session ${id} because it ${reason}`;
+      process.stderr.write(`[Reaper] ${message}\n`);
+      await this.server
+        .sendLoggingMessage({
+          level: "notice",
+          logger: "browserbase",
+          data: message,
+        })
+        .catch(() => {
+          // The client may have disconnected; the log line above is enough
+        });
+    }
   }
 
   public getServer(): Server {
@@ -21,22 +135,129 @@ export class Context {
   }
 
   /**
-   * Gets the Stagehand instance for the current session from SessionManager
+   * Who new sessions belong to: this connection, and its caller when authenticated
+   */
+  public sessionOwner(): Pick<
+    sessionRegistry.CreateSessionOptions,
+    "owner" | "principal"
+  > {
+    return { owner: this.id, principal: this.principal?.id };
+  }
+
+  /**
+   * Whether this connection may detach and reattach sessions. Detached
+   * sessions are matched to callers by principal, so on HTTP only
+   * authenticated connections can tell theirs apart from other clients'.
+   */
+  public canReattach(): boolean {
+    return this.stdio || this.principal !== undefined;
+  }
+
+  /**
+   * Reattach a detached session when it is asked for by ID, if sessions are
+   * kept across restarts and this connection may reattach them
+   * @returns The session, or null if there is no such session to reattach
    */
-  public async getStagehand(
-    sessionId: string = this.currentSessionId,
-  ): Promise<Stagehand> {
-    const session = await getSession(sessionId, this.config);
-    if (!session) {
-      throw new Error(`No session found for ID: ${sessionId}`);
+  public async reattachKept(id: string): Promise<BrowserSession | null> {
+    if (!this.config.persistSessions || !this.canReattach()) return null;
+    return reattachSession(this.config, id, this.sessionOwner());
+  }
+
+  /**
+   * Get a session of this connection, waiting for it if it is reconnecting.
+   * Without an ID, returns the current session, creating one if there is none.
+   * @param sessionId The ID of a specific session; it must exist
+   */
+  public async getSession(sessionId?: string): Promise<BrowserSession> {
+    const targetId = sessionId ?? this.currentSessionId;
+    if (targetId) {
+      const session =
+        (await sessionRegistry.getConnected(targetId, this.id)) ??
+        // A detached session, maybe of an earlier server process
+        (await this.reattachKept(targetId));
+      if (session) {
+        sessionRegistry.touch(session.id);
+        await syncActiveTab(session);
+        return session;
+      }
+      if (sessionId) {
+        throw new Error(`No session found for ID: ${sessionId}`);
+      }
+      process.stderr.write(
+        `[Context] Current session ${targetId} is gone, creating a new one\n`,
+      );
     }
-    return session.stagehand;
+
+    this.pendingSession ??= this.createCurrentSession().finally(() => {
+      this.pendingSession = undefined;
+    });
+    return this.pendingSession;
   }
 
-  public async getActivePage(): Promise<BrowserSession["page"] | null> {
-    // Get page from session manager
-    const session = await getSession(this.currentSessionId, this.config);
-    if (session && session.page && !session.page.isClosed()) {
+  // Create a session with the connection's settings and make it current, retrying once.
+  // After a restart with persistSessions, the first one carries on with the last session.
+  private async createCurrentSession(): Promise<BrowserSession> {
+    if (
+      this.config.persistSessions &&
+      this.canReattach() &&
+      !this.resumedPersisted
+    ) {
+      this.resumedPersisted = true;
+      const resumed = await reattachLatest(
+        this.config,
+        this.sessionOwner(),
+      ).catch((error) => {
+        process.stderr.write(
+          `[Context] Could not carry on with a kept session: ${
+            error instanceof Error ? error.message : String(error)
+          }\n`,
+        );
+        return null;
+      });
+      if (resumed) {
+        this.currentSessionId = resumed.id;
+        return resumed;
+      }
+    }
+
+    let session: BrowserSession;
+    try {
+      session = await sessionRegistry.create(
+        this.config,
+        {},
+        this.sessionOwner(),
+      );
+    } catch (error) {
+      process.stderr.write(
+        `[Context] Creating a session failed, retrying: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`,
+      );
+      session = await sessionRegistry.create(
+        this.config,
+        {},
+        this.sessionOwner(),
+      );
+    }
+    this.currentSessionId = session.id;
+    return session;
+  }
+
+  /**
+   * Gets the Stagehand instance for the current session, or a specific one
+   */
+  public async getStagehand(sessionId?: string): Promise<Stagehand> {
+    return (await this.getSession(sessionId)).stagehand;
+  }
+
+  /**
+   * Gets the page of the current session, or of a specific one
+   */
+  public async getActivePage(
+    sessionId?: string,
+  ): Promise<BrowserSession["page"] | null> {
+    const session = await this.getSession(sessionId);
+    if (session.page && !session.page.isClosed()) {
       return session.page;
     }
 
@@ -45,30 +266,105 @@ export class Context {
 
   public async getActiveBrowser(
     createIfMissing: boolean = true,
+    sessionId?: string,
   ): Promise<BrowserSession["browser"] | null> {
-    const session = await getSession(
-      this.currentSessionId,
-      this.config,
-      createIfMissing,
-    );
-    if (!session || !session.browser || !session.browser.isConnected()) {
+    if (!createIfMissing && !sessionId && !this.currentSessionId) return null;
+    const session = await this.getSession(sessionId);
+    if (!session.browser || !session.browser.isConnected()) {
       return null;
     }
     return session.browser;
   }
 
+  /**
+   * Gets the provider-specific live view links for the current session, or a specific one
+   */
+  public async getLiveView(sessionId?: string): Promise<LiveView | null> {
+    const session = await this.getSession(sessionId);
+    return getProvider(this.config, session.provider).getLiveView(
+      this.config,
+      session.stagehand,
+    );
+  }
+
   async run(tool: MCPTool, args: unknown): Promise<CallToolResult> {
+    const startedAt = performance.now();
+    const result = await this.runTool(tool, args);
+    this.reportDialogs(result);
+    toolCalls.inc({
+      tool: tool.schema.name,
+      status: result.isError ? "error" : "success",
+    });
+    toolCallDuration.observe(
+      { tool: tool.schema.name },
+      (performance.now() - startedAt) / 1000,
+    );
+    return result;
+  }
+
+  // Tell the agent about dialogs and file choosers of its sessions since its
+  // last tool call, including those answered automatically
+  private reportDialogs(result: CallToolResult): void {
+    const sessions = sessionRegistry.list(this.id);
+    // Name the session only when there is more than one
+    const notices = sessions.flatMap((session) =>
+      takeDialogNotices(session).map((notice) =>
+        sessions.length > 1 ? `[${session.id}] ${notice}` : notice,
+      ),
+    );
+    if (notices.length === 0) return;
+    result.content.push({
+      type: "text",
+      text: `Dialogs and file choosers since the last tool call:\n${notices
+        .map((notice) => `- ${notice}`)
+        .join("\n")}`,
+    });
+  }
+
+  // A queued dialog blocks its page, so an action on that page may never
+  // finish. Return as soon as one opens, so the agent learns about it.
+  private async untilDialogQueued(
+    toolName: string,
+    action: Promise<ToolActionResult>,
+  ): Promise<ToolActionResult> {
+    let stop = () => {};
+    const queued = new Promise<ToolActionResult>((resolve) => {
+      stop = onDialogQueued((session) => {
+        if (session.owner !== this.id) return;
+        resolve({
+          content: [
+            {
+              type: "text",
+              text: `Stopped waiting for ${toolName}: a dialog opened in session ${session.id} and blocks its page until it is answered. The action may go on once the dialog is answered.`,
+            },
+          ],
+        });
+      });
+    });
+    try {
+      return await Promise.race([action, queued]);
+    } finally {
+      stop();
+    }
+  }
+
+  private async runTool(tool: MCPTool, args: unknown): Promise<CallToolResult> {
     try {
       console.error(
-        `Executing tool: ${tool.schema.name} with args: ${JSON.stringify(args)}`,
+        `Executing tool: ${tool.schema.name}${this.principal ? ` for ${this.principal.id}` : ""} with args: ${JSON.stringify(redactSecrets(args))}`,
       );
 
+      assertCredentialPolicy(this.serverConfig, this.credentials);
+
       // Check if this tool has a handle method (new tool system)
       if ("handle" in tool && typeof tool.handle === "function") {
         const toolResult = await tool.handle(this, args);
 
         if (toolResult?.action) {
-          const actionResult = await toolResult.action();
+          const actionResult = await this.untilDialogQueued(
+            tool.schema.name,
+            toolResult.action(),
+          );
           const content = actionResult?.content || [];
 
           return {
@@ -112,7 +408,10 @@ export class Context {
    * Documentation: https://modelcontextprotocol.io/docs/concepts/resources
    */
   listResources() {
-    return listResources();
+    const { resources } = listResources(this.id);
+    return {
+      resources: [...resources, ...listSnapshotResources(this.id)],
+    };
   }
 
   /**
@@ -120,6 +419,9 @@ export class Context {
    * Documentation: https://modelcontextprotocol.io/docs/concepts/resources
    */
   readResource(uri: string) {
-    return readResource(uri);
+    if (uri.startsWith(SNAPSHOT_URI_PREFIX)) {
+      return readSnapshotResource(this.id, uri);
+    }
+    return readResource(this.id, uri);
   }
 }
@@ -0,0 +1,177 @@
+import { Browserbase } from "@browserbasehq/sdk";
+import type { Config } from "../config.d.ts";
+import * as sessionRegistry from "./sessionRegistry.js";
+
+/**
+ * Browserbase Contexts created or used through this server. The Browserbase
+ * API cannot list a project's contexts, so the server remembers the ones it
+ * has seen.
+ */
+
+export type KnownContext = {
+  id: string;
+  projectId: string;
+  name?: string;
+  created?: number; // when this server created it
+  owner?: string; // ID of the MCP connection that created it
+  principal?: string; // ID of the authenticated caller that created it
+};
+
+// Who asks: contexts are only shown to the connection or principal that
+// created them, or whose live sessions use them
+export type ContextOwner = Pick<
+  sessionRegistry.CreateSessionOptions,
+  "owner" | "principal"
+>;
+
+// Contexts by ID
+const known = new Map<string, KnownContext>();
+
+export type ContextDetails = KnownContext & {
+  createdAt: string;
+  updatedAt: string;
+  sessionIds: string[]; // live sessions of the requesting connection using it
+  inUse: number; // live sessions of any connection using it
+};
+
+// A Browserbase API client for the config's credentials
+function client(config: Config): { bb: Browserbase; projectId: string } {
+  const apiKey = config.browserbaseApiKey;
+  const projectId = config.browserbaseProjectId;
+  if (!apiKey || !projectId) {
+    throw new Error(
+      "Browserbase API Key and Project ID are required to manage contexts",
+    );
+  }
+  return { bb: new Browserbase({ apiKey }), projectId };
+}
+
+function createdBy(
+  context: KnownContext,
+  { owner, principal }: ContextOwner,
+): boolean {
+  return principal !== undefined
+    ? context.principal === principal
+    : context.owner === owner;
+}
+
+// Live sessions whose browser uses the context
+function sessionsUsing(id: string, owner?: string) {
+  return sessionRegistry
+    .list(owner)
+    .filter((session) => session.settings.context?.contextId === id);
+}
+
+/**
+ * Create a context in the config's Browserbase project
+ */
+export async function createContext(
+  config: Config,
+  { owner, principal }: ContextOwner,
+  name?: string,
+): Promise<KnownContext> {
+  const { bb, projectId } = client(config);
+  const { id } = await bb.contexts.create({ projectId });
+  const context: KnownContext = {
+    id,
+    projectId,
+    name,
+    created: Date.now(),
+    owner,
+    principal,
+  };
+  known.set(id, context);
+  process.stderr.write(
+    `[Contexts] Created context ${id}${name ? ` (${name})` : ""}\n`,
+  );
+  return context;
+}
+
+/**
+ * Contexts of the config's project that the caller may see: those it created,
+ * the configured one, and those used by its live sessions
+ */
+export function listContexts(
+  config: Config,
+  caller: ContextOwner,
+): KnownContext[] {
+  const projectId = config.browserbaseProjectId;
+  const contexts = new Map<string, KnownContext>();
+  for (const context of known.values()) {
+    if (context.projectId === projectId && createdBy(context, caller)) {
+      contexts.set(context.id, context);
+    }
+  }
+
+  const configured = config.context?.contextId;
+  if (configured && projectId && !contexts.has(configured)) {
+    contexts.set(configured, { id: configured, projectId });
+  }
+  for (const session of sessionRegistry.list(caller.owner)) {
+    const id = session.settings.context?.contextId;
+    if (id && projectId && !contexts.has(id)) {
+      contexts.set(id, { id, projectId });
+    }
+  }
+  return Array.from(contexts.values());
+}
+
+// Throw unless the caller may see the context
+function assertVisible(config: Config, id: string, caller: ContextOwner): void {
+  if (!listContexts(config, caller).some((context) => context.id === id)) {
+    throw new Error(
+      `Context ${id} was not created with browserbase_context_create or used by a session of yours`,
+    );
+  }
+}
+
+/**
+ * Get a context from Browserbase, with what this server knows about it
+ * @param caller Whose sessions are reported in `sessionIds`
+ */
+export async function describeContext(
+  config: Config,
+  id: string,
+  caller: ContextOwner,
+): Promise<ContextDetails> {
+  assertVisible(config, id, caller);
+  const { bb } = client(config);
+  const context = await bb.contexts.retrieve(id);
+  return {
+    ...known.get(id),
+    id: context.id,
+    projectId: context.projectId,
+    createdAt: context.createdAt,
+    updatedAt: context.updatedAt,
+    sessionIds: sessionsUsing(id, caller.owner).map((session) => session.id),
+    inUse: sessionsUsing(id).length,
+  };
+}
+
+/**
+ * Delete a context and the browser data stored in it. Contexts used by a live
+ * session cannot be deleted, and the configured one belongs to no caller.
+ */
+export async function deleteContext(
+  config: Config,
+  id: string,
+  caller: ContextOwner,
+): Promise<void> {
+  if (id === config.context?.contextId) {
+    throw new Error(
+      `Context ${id} is the server's configured context and cannot be deleted here`,
+    );
+  }
+  assertVisible(config, id, caller);
+  const { bb } = client(config);
+  const users = sessionsUsing(id);
+  if (users.length > 0) {
+    throw new Error(
+      `Context ${id} is used by ${users.length} live session(s); close them first`,
+    );
+  }
+
+  await bb.delete(`/v1/contexts/${encodeURIComponent(id)}`);
+  known.delete(id);
+  process.stderr.write(`[Contexts] Deleted context ${id}\n`);
+}
@@ -0,0 +1,154 @@
+import type http from "node:http";
+import type { ClientCapabilities } from "@modelcontextprotocol/sdk/types.js";
+import type { Config } from "../config.d.ts";
+import { resolveProviderName } from "./providers/index.js";
+
+/**
+ * Browserbase and model credentials supplied by a single MCP connection
+ */
+export type ConnectionCredentials = Pick<
+  Config,
+  "browserbaseApiKey" | "browserbaseProjectId" | "modelApiKey"
+>;
+
+type CredentialName = keyof ConnectionCredentials;
+
+export type CredentialPolicy = NonNullable<Config["credentialOverrides"]>;
+
+// HTTP headers a client can send with its initialize request
+export const CREDENTIAL_HEADERS: Record<CredentialName, string> = {
+  browserbaseApiKey: "x-browserbase-api-key",
+  browserbaseProjectId: "x-browserbase-project-id",
+  modelApiKey: "x-model-api-key",
+};
+
+// Key under `capabilities.experimental` in the initialize params
+export const CREDENTIALS_CAPABILITY = "browserbase";
+
+const CREDENTIAL_NAMES = Object.keys(CREDENTIAL_HEADERS) as CredentialName[];
+
+// Argument keys whose values are never written to logs
+const SECRET_KEY_PATTERN =
+  /(api_?key|secret|token|password|authorization|credential|cookie)/i;
+
+// File content, such as uploads, which is too large and too personal to log
+const CONTENT_KEY_PATTERN = /^(base64|blob)$/i;
+
+function pickCredentials(
+  source: Record<string, unknown>,
+  keyFor: (name: CredentialName) => string,
+): ConnectionCredentials {
+  const credentials: ConnectionCredentials = {};
+  for (const name of CREDENTIAL_NAMES) {
+    const value = source[keyFor(name)];
+    if (typeof value === "string" && value.length > 0) {
+      credentials[name] = value;
+    }
+  }
+  return credentials;
+}
+
+/**
+ * Read credentials from the headers of an HTTP initialize request
+ */
+export function credentialsFromHeaders(
+  headers: http.IncomingHttpHeaders,
+): ConnectionCredentials {
+  return pickCredentials(headers, (name) => CREDENTIAL_HEADERS[name]);
+}
+
+/**
+ * Read credentials from `capabilities.experimental.browserbase` of the initialize params
+ */
+export function credentialsFromCapabilities(
+  capabilities: ClientCapabilities | undefined,
+): ConnectionCredentials {
+  const supplied = capabilities?.experimental?.[CREDENTIALS_CAPABILITY];
+  if (!supplied || typeof supplied !== "object") return {};
+  return pickCredentials(supplied as Record<string, unknown>, (name) => name);
+}
+
+export function hasCredentials(credentials: ConnectionCredentials): boolean {
+  return CREDENTIAL_NAMES.some((name) => credentials[name] !== undefined);
+}
+
+/**
+ * Check a connection's credentials against the server's override policy,
+ * throwing an error that names the missing or rejected fields (never their values)
+ */
+export function assertCredentialPolicy(
+  config: Config,
+  credentials: ConnectionCredentials,
+): void {
+  const policy: CredentialPolicy = config.credentialOverrides ?? "allow";
+
+  if (policy === "forbid" && hasCredentials(credentials)) {
+    throw new Error(
+      "This server does not accept per-connection credentials. Remove the credential headers or initialize params and use the server's configuration.",
+    );
+  }
+
+  if (policy === "require") {
+    const required: CredentialName[] =
+      resolveProviderName(config) === "browserbase"
+        ? ["browserbaseApiKey", "browserbaseProjectId", "modelApiKey"]
+        : ["modelApiKey"];
+    const missing = required.filter((name) => !credentials[name]);
+    if (missing.length > 0) {
+      throw new Error(
+        `This server requires per-connection credentials. Missing: ${missing
+          .map((name) => `${name} (${CREDENTIAL_HEADERS[name]} header)`)
+          .join(", ")}`,
+      );
+    }
+  }
+}
+
+/**
+ * The configuration a connection runs with: the server config with the
+ * connection's credentials applied according to the override policy
+ */
+export function applyCredentials(
+  config: Config,
+  credentials: ConnectionCredentials,
+): Config {
+  const policy: CredentialPolicy = config.credentialOverrides ?? "allow";
+  switch (policy) {
+    case "forbid":
+      return config;
+    case "require":
+      // The server's own credentials are never used on behalf of a connection
+      return {
+        ...config,
+        browserbaseApiKey: credentials.browserbaseApiKey,
+        browserbaseProjectId: credentials.browserbaseProjectId,
+        modelApiKey: credentials.modelApiKey,
+      };
+    case "allow":
+      return { ...config, ...credentials };
+  }
+}
+
+/**
+ * Replace secret-looking values and file content in tool arguments before
+ * they are logged
+ */
+export function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (!value || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value).map(([key, entry]) => {
+      if (entry === undefined) return [key, entry];
+      if (SECRET_KEY_PATTERN.test(key)) return [key, "[REDACTED]"];
+      if (CONTENT_KEY_PATTERN.test(key)) {
+        return [
+          key,
+          typeof entry === "string"
+            ? `[${entry.length} characters]`
+            : "[REDACTED]",
+        ];
+      }
+      return [key, redactSecrets(entry)];
+    }),
+  );
+}
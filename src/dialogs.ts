@@ -0,0 +1,146 @@
+import type { BrowserContext, Dialog } from "playwright-core";
+import type { BrowserSession, PendingDialog } from "./types/types.js";
+
+/**
+ * JavaScript dialogs (alert, confirm, prompt and beforeunload) of each
+ * session. A dialog blocks its page until it is answered, so each session's
+ * dialogPolicy answers them as they open or queues them for the agent.
+ * Either way a notice is kept and reported with the next tool result.
+ */
+
+// Called with the session whenever a dialog is queued
+const queuedListeners = new Set<(session: BrowserSession) => void>();
+
+function describeDialog(dialog: Dialog, tabId?: string): string {
+  return `${dialog.type()} dialog${tabId ? ` on ${tabId}` : ""}: ${JSON.stringify(dialog.message())}`;
+}
+
+async function handleDialog(
+  session: BrowserSession,
+  dialog: Dialog,
+): Promise<void> {
+  const page = dialog.page();
+  const tabId = session.tabs.find((tab) => tab.page === page)?.id;
+  const policy = session.settings.dialogPolicy ?? "dismiss";
+
+  if (policy === "queue") {
+    session.dialogsOpened++;
+    const pending: PendingDialog = {
+      id: `dialog-${session.dialogsOpened}`,
+      dialog,
+      tabId,
+      opened: Date.now(),
+    };
+    session.dialogs.push(pending);
+    page?.once("close", () => {
+      session.dialogs = session.dialogs.filter((d) => d !== pending);
+    });
+    session.dialogNotices.push(
+      `A ${describeDialog(dialog, tabId)} is waiting as ${pending.id}; answer it with browserbase_dialog`,
+    );
+    for (const listener of queuedListeners) listener(session);
+    return;
+  }
+
+  try {
+    if (policy === "accept") {
+      // Prompts get their default text, like pressing OK without typing
+      await dialog.accept(
+        dialog.type() === "prompt" ? dialog.defaultValue() : undefined,
+      );
+    } else {
+      await dialog.dismiss();
+    }
+    session.dialogNotices.push(
+      `${policy === "accept" ? "Accepted" : "Dismissed"} a ${describeDialog(dialog, tabId)}`,
+    );
+  } catch (error) {
+    process.stderr.write(
+      `[Dialogs] Could not answer a ${dialog.type()} dialog in session ${session.id}: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`,
+    );
+  }
+}
+
+/**
+ * Start answering or queueing the dialogs of a session's browser. Called
+ * again after a reconnect; dialogs queued on the old connection are dropped.
+ */
+export function watchDialogs(session: BrowserSession): void {
+  session.dialogs = [];
+  const browserContext = session.page.context() as BrowserContext;
+  browserContext.on("dialog", (dialog) => {
+    void handleDialog(session, dialog);
+  });
+}
+
+/**
+ * Get called whenever a dialog is queued, e.g. to stop waiting for a tool
+ * call the dialog blocks
+ * @returns Stops the calls
+ */
+export function onDialogQueued(
+  listener: (session: BrowserSession) => void,
+): () => void {
+  queuedListeners.add(listener);
+  return () => queuedListeners.delete(listener);
+}
+
+/**
+ * Take the notices about dialogs since the last call, for the next tool result
+ */
+export function takeDialogNotices(session: BrowserSession): string[] {
+  const notices = session.dialogNotices;
+  session.dialogNotices = [];
+  return notices;
+}
+
+/**
+ * Answer a queued dialog
+ * @param dialogId The dialog to answer; defaults to the oldest one
+ * @param promptText Text to enter into a prompt dialog when accepting it
+ */
+export async function answerDialog(
+  session: BrowserSession,
+  dialogId: string | undefined,
+  accept: boolean,
+  promptText?: string,
+): Promise<PendingDialog> {
+  const pending = dialogId
+    ? session.dialogs.find((d) => d.id === dialogId)
+    : session.dialogs[0];
+  if (!pending) {
+    throw new Error(
+      dialogId
+        ? `No dialog ${dialogId} is waiting in session ${session.id}. Waiting: ${
+            session.dialogs.map((d) => d.id).join(", ") || "none"
+          }`
+        : `No dialog is waiting in session ${session.id}`,
+    );
+  }
+
+  // Answered or not, it no longer blocks anything we can reach
+  session.dialogs = session.dialogs.filter((d) => d !== pending);
+  if (accept) {
+    await pending.dialog.accept(promptText);
+  } else {
+    await pending.dialog.dismiss();
+  }
+  process.stderr.write(
+    `[Dialogs] Session ${session.id} ${accept ? "accepted" : "dismissed"} ${pending.id}\n`,
+  );
+  return pending;
+}
+
+/**
+ * Describe a queued dialog as one line of tool output
+ */
+export function formatDialog(pending: PendingDialog): string {
+  const { dialog } = pending;
+  const defaultValue =
+    dialog.type() === "prompt" && dialog.defaultValue()
+      ? ` (default text: ${JSON.stringify(dialog.defaultValue())})`
+      : "";
+  return `- ${pending.id}: ${describeDialog(dialog, pending.tabId)}${defaultValue}`;
+}
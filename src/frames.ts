@@ -0,0 +1,219 @@
+import type {
+  ObserveOptions,
+  ObserveResult,
+  Stagehand,
+} from "@browserbasehq/stagehand";
+import type { Frame, Locator, Page as PlaywrightPage } from "playwright-core";
+import { activePlaywrightPage } from "./pages.js";
+
+/**
+ * Frames of the active tab, so act, observe and extract can target content
+ * inside iframes such as payment forms, embedded editors and consent banners.
+ *
+ * Looking inside iframes needs Stagehand's experimental mode, which the
+ * frameTargeting setting turns on. Without it only the page itself is used.
+ *
+ * Stagehand's iframe support addresses frames by the XPath of their iframe
+ * element from the top document, and prefixes the XPaths of elements inside
+ * a frame with it. Frames are matched to elements the same way.
+ */
+
+export type FrameInfo = {
+  index: number; // 0 is the top-level page
+  name: string;
+  url: string;
+  xpath: string; // of the iframe element, through its parent frames; "" for the page
+  parentIndex?: number;
+  handle: Frame;
+};
+
+export type FrameSelector = {
+  index?: number;
+  name?: string;
+  url?: string; // a substring of the URL, or a pattern with * wildcards
+};
+
+// XPath of a frame's iframe element within its parent document, in the
+// form Stagehand uses for frame prefixes
+async function frameElementXPath(frame: Frame): Promise<string> {
+  const handle = await frame.frameElement();
+  return handle.evaluate((node) => {
+    const position = (el: Element) => {
+      let i = 1;
+      for (
+        let sib = el.previousElementSibling;
+        sib;
+        sib = sib.previousElementSibling
+      ) {
+        if (sib.tagName === el.tagName) i++;
+      }
+      return i;
+    };
+    const steps: string[] = [];
+    for (let el = node as Element | null; el; el = el.parentElement) {
+      steps.unshift(`${el.tagName.toLowerCase()}[${position(el)}]`);
+    }
+    return `/${steps.join("/")}`;
+  });
+}
+
+/**
+ * The frames of a page, the page itself first. Frames that are detaching are left out.
+ */
+export async function listFrames(page: PlaywrightPage): Promise<FrameInfo[]> {
+  const frames: FrameInfo[] = [];
+  const indexes = new Map<Frame, number>();
+
+  // Parents come before their children in this order
+  const queue: Frame[] = [page.mainFrame()];
+  while (queue.length > 0) {
+    const frame = queue.shift()!;
+    const parent = frame.parentFrame();
+    let xpath = "";
+    if (parent) {
+      const parentIndex = indexes.get(parent);
+      if (parentIndex === undefined) continue;
+      try {
+        xpath = `${frames[parentIndex].xpath}${await frameElementXPath(frame)}`;
+      } catch {
+        continue;
+      }
+    }
+
+    indexes.set(frame, frames.length);
+    frames.push({
+      index: frames.length,
+      name: frame.name(),
+      url: frame.url(),
+      xpath,
+      parentIndex: parent ? indexes.get(parent) : undefined,
+      handle: frame,
+    });
+    queue.push(...frame.childFrames());
+  }
+  return frames;
+}
+
+function matchesUrl(url: string, pattern: string): boolean {
+  if (!pattern.includes("*")) return url.includes(pattern);
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}$`).test(url);
+}
+
+export function describeFrame(frame: FrameInfo): string {
+  if (frame.index === 0) return `#0 (page) ${frame.url}`;
+  return `#${frame.index}${frame.name ? ` "${frame.name}"` : ""} ${frame.url}`;
+}
+
+/**
+ * Find the frame of the active tab that a selector picks. All given fields
+ * must match, and they must match exactly one frame.
+ */
+export async function resolveFrame(
+  stagehand: Stagehand,
+  selector: FrameSelector,
+): Promise<{ frame: FrameInfo; frames: FrameInfo[] }> {
+  if (
+    selector.index === undefined &&
+    selector.name === undefined &&
+    selector.url === undefined
+  ) {
+    throw new Error("Select the frame by index, name or url");
+  }
+
+  const frames = await listFrames(activePlaywrightPage(stagehand));
+  const matches = frames.filter(
+    (frame) =>
+      (selector.index === undefined || frame.index === selector.index) &&
+      (selector.name === undefined || frame.name === selector.name) &&
+      (selector.url === undefined || matchesUrl(frame.url, selector.url)),
+  );
+
+  if (matches.length !== 1) {
+    throw new Error(
+      `${matches.length === 0 ? "No frame matches" : `${matches.length} frames match`} ${JSON.stringify(selector)}. Frames of the page:\n${frames
+        .map(describeFrame)
+        .join("\n")}`,
+    );
+  }
+  return { frame: matches[0], frames };
+}
+
+/**
+ * Fail unless Stagehand can work inside the frame: the page itself always,
+ * iframes only with frameTargeting
+ */
+export function assertFrameTargeting(
+  stagehand: Stagehand,
+  frame: FrameInfo,
+): void {
+  if (frame.index > 0 && !stagehand.experimental) {
+    throw new Error(
+      `Working inside iframes such as ${describeFrame(frame)} needs the frameTargeting setting`,
+    );
+  }
+}
+
+/**
+ * The frame an element found by observe is in: the innermost frame whose
+ * XPath prefixes the element's
+ */
+export function frameOfElement(
+  frames: FrameInfo[],
+  element: ObserveResult,
+): FrameInfo {
+  const xpath = element.selector.replace(/^xpath=/, "");
+  let found = frames[0];
+  for (const frame of frames) {
+    if (
+      frame.xpath &&
+      xpath.startsWith(`${frame.xpath}/`) &&
+      frame.xpath.length > found.xpath.length
+    ) {
+      found = frame;
+    }
+  }
+  return found;
+}
+
+/**
+ * A locator for an element found by observe, within the frame it is in
+ */
+export function locateElement(
+  element: ObserveResult & { frame: FrameInfo },
+): Locator {
+  const xpath = element.selector
+    .replace(/^xpath=/, "")
+    .slice(element.frame.xpath.length);
+  return element.frame.handle.locator(`xpath=${xpath}`);
+}
+
+/**
+ * Observe the active tab, looking inside its iframes when it has any and
+ * frameTargeting is on, and tell which frame each element is in
+ * @param selector Only return elements of this frame
+ */
+export async function observeFrames(
+  stagehand: Stagehand,
+  options: Omit<ObserveOptions, "iframes">,
+  selector?: FrameSelector,
+): Promise<(ObserveResult & { frame: FrameInfo })[]> {
+  const { frame: selected, frames } = selector
+    ? await resolveFrame(stagehand, selector)
+    : {
+        frame: undefined,
+        frames: await listFrames(activePlaywrightPage(stagehand)),
+      };
+  if (selected) assertFrameTargeting(stagehand, selected);
+
+  const observations = await stagehand.page.observe({
+    ...options,
+    ...(frames.length > 1 && stagehand.experimental && { iframes: true }),
+  });
+  return observations
+    .map((element) => ({ ...element, frame: frameOfElement(frames, element) }))
+    .filter((element) => !selected || element.frame === selected);
+}
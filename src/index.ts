@@ -7,8 +7,16 @@ import type { MCPToolsArray } from "./types/types.js";
 
 import { Context } from "./context.js";
 import type { Config } from "../config.d.ts";
-import { TOOLS } from "./tools/index.js";
-import { AvailableModelSchema } from "./types/models.js";
+import type { ConnectionOptions } from "./server.js";
+import { credentialsFromCapabilities } from "./credentials.js";
+import { TOOLS, filterTools } from "./tools/index.js";
+import { TOOL_CAPABILITIES } from "./tools/tool.js";
+import { lacksModelApiKey, sessionSettingsSchema } from "./sessionSettings.js";
+import {
+  PROVIDER_NAMES,
+  resolveProviderName,
+  type ProviderName,
+} from "./providers/index.js";
 import { PROMPTS, getPrompt } from "./mcp/prompts.js";
 import { RESOURCE_TEMPLATES } from "./mcp/resources.js";
 
@@ -20,107 +28,325 @@ import {
   GetPromptRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
-const cookieSchema = z.object({
-  name: z.string(),
-  value: z.string(),
-  domain: z.string(),
-  path: z.string().optional(),
-  expires: z.number().optional(),
-  httpOnly: z.boolean().optional(),
-  secure: z.boolean().optional(),
-  sameSite: z.enum(["Strict", "Lax", "None"]).optional(),
+// Shape of every configuration option - matches existing Config interface
+export const configObjectSchema = z.object({
+  browserbaseApiKey: z
+    .string()
+    .optional()
+    .describe(
+      "The Browserbase API Key to use. Required for the browserbase provider",
+    ),
+  browserbaseProjectId: z
+    .string()
+    .optional()
+    .describe(
+      "The Browserbase Project ID to use. Required for the browserbase provider",
+    ),
+  provider: z
+    .enum(PROVIDER_NAMES as [ProviderName, ...ProviderName[]])
+    .optional()
+    .describe(
+      "The browser provider that backs new sessions: browserbase (default), local, or cdp",
+    ),
+  cdpUrl: z
+    .string()
+    .optional()
+    .describe(
+      "CDP endpoint of an already-running browser to attach to instead of starting Browserbase sessions (e.g. http://localhost:9222)",
+    ),
+  cdpEndpointAllowlist: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Hosts that sessions may attach to with their own cdpEndpoint, as host or host:port patterns with * wildcards. When unset, per-session endpoints are rejected",
+    ),
+  localBrowser: z
+    .object({
+      headless: z
+        .boolean()
+        .optional()
+        .describe("Run the local Chromium without a window (default: true)"),
+      executablePath: z
+        .string()
+        .optional()
+        .describe("Path to the Chromium or Chrome executable to launch"),
+    })
+    .optional(),
+  ...sessionSettingsSchema.shape,
+  server: z
+    .object({
+      port: z
+        .number()
+        .optional()
+        .describe("The port to listen on for SHTTP or MCP transport"),
+      host: z
+        .string()
+        .optional()
+        .describe(
+          "The host to bind the server to. Default is localhost. Use 0.0.0.0 to bind to all interfaces",
+        ),
+    })
+    .optional(),
+  modelApiKey: z
+    .string()
+    .optional()
+    .describe(
+      "API key for the custom model provider. Required when using a model other than the default google/gemini-2.0-flash",
+    ),
+  tools: z
+    .object({
+      allow: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Only expose tools whose names match one of these patterns (* and ? wildcards)",
+        ),
+      deny: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Hide tools whose names match one of these patterns (* and ? wildcards)",
+        ),
+    })
+    .optional(),
+  auth: z
+    .object({
+      tokens: z
+        .array(
+          z.object({
+            token: z.string().min(1),
+            principal: z.string().optional(),
+          }),
+        )
+        .optional()
+        .describe("Static bearer tokens accepted by the HTTP transport"),
+      oauth: z
+        .object({
+          issuer: z.string().url().describe("The issuer of access tokens"),
+          jwksUrl: z
+            .string()
+            .url()
+            .optional()
+            .describe("URL of the issuer's JSON Web Key Set"),
+          audience: z
+            .string()
+            .optional()
+            .describe("Expected audience of access tokens"),
+          requiredScopes: z
+            .array(z.string())
+            .optional()
+            .describe("Scopes every access token must carry"),
+        })
+        .optional(),
+    })
+    .optional(),
+  credentialOverrides: z
+    .enum(["require", "allow", "forbid"])
+    .optional()
+    .describe(
+      "Whether connections may supply their own Browserbase and model credentials: require, allow (default), or forbid",
+    ),
+  concurrency: z
+    .object({
+      maxSessions: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Maximum live browser sessions across all connections"),
+      maxSessionsPerConnection: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe("Maximum live browser sessions per MCP connection"),
+      whenFull: z
+        .enum(["reject", "queue"])
+        .optional()
+        .describe(
+          "Reject new sessions when a limit is reached, or queue them until one closes (default: reject)",
+        ),
+      queueTimeout: z
+        .number()
+        .nonnegative()
+        .optional()
+        .describe(
+          "Seconds a queued session request waits before failing (default: 60, 0 waits indefinitely)",
+        ),
+    })
+    .optional(),
+  pool: z
+    .object({
+      size: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .describe("Number of warm sessions to keep ready (default: 0)"),
+      ttl: z
+        .number()
+        .positive()
+        .optional()
+        .describe(
+          "Seconds an unclaimed pooled session lives before it is replaced (default: 240)",
+        ),
+    })
+    .optional(),
+  reconnect: z
+    .object({
+      attempts: z
+        .number()
+        .int()
+        .nonnegative()
+        .optional()
+        .describe(
+          "Attempts to reattach a dropped session before removing it (default: 3, 0 disables)",
+        ),
+      delay: z
+        .number()
+        .nonnegative()
+        .optional()
+        .describe(
+          "Seconds before the first reconnect attempt, doubled after each failure (default: 1)",
+        ),
+    })
+    .optional(),
+  timeouts: z
+    .object({
+      sessionIdle: z
+        .number()
+        .nonnegative()
+        .optional()
+        .describe(
+          "Close browser sessions unused by any tool for this many seconds (0 disables)",
+        ),
+      sessionMaxLifetime: z
+        .number()
+        .nonnegative()
+        .optional()
+        .describe(
+          "Close browser sessions this many seconds after creation (0 disables)",
+        ),
+      connectionIdle: z
+        .number()
+        .nonnegative()
+        .optional()
+        .describe(
+          "Close MCP HTTP sessions without requests for this many seconds (0 disables)",
+        ),
+      connectionMaxLifetime: z
+        .number()
+        .nonnegative()
+        .optional()
+        .describe(
+          "Close MCP HTTP sessions this many seconds after initialization (0 disables)",
+        ),
+      reaperInterval: z
+        .number()
+        .positive()
+        .optional()
+        .describe("How often to check for expired sessions, in seconds"),
+    })
+    .optional(),
+  capabilities: z
+    .array(z.enum(TOOL_CAPABILITIES))
+    .optional()
+    .describe(
+      "Only expose tools with these capabilities: core, sessions, contexts, cookies, storage, tabs, dialogs, uploads, multi-session, vision",
+    ),
+  legacyMultiSessionTools: z
+    .boolean()
+    .optional()
+    .describe(
+      "Also expose the legacy multi_* tools for clients written before every tool accepted a sessionId",
+    ),
+  storageStateDir: z
+    .string()
+    .optional()
+    .describe(
+      "Directory where storage state snapshots are saved (default: ~/.browserbase-mcp/storage-states)",
+    ),
+  uploadDir: z
+    .string()
+    .optional()
+    .describe(
+      "Directory that files may be uploaded from by path. When unset, uploads take base64 content or MCP resources only",
+    ),
+  frameTargeting: z
+    .boolean()
+    .optional()
+    .describe(
+      "Let act, observe and extract work inside iframes. Runs Stagehand in its beta experimental mode",
+    ),
+  persistSessions: z
+    .boolean()
+    .optional()
+    .describe(
+      "Keep browser sessions running when the server exits and reattach to them after a restart",
+    ),
+  sessionStateFile: z
+    .string()
+    .optional()
+    .describe(
+      "File where detached and persisted sessions are recorded (default: ~/.browserbase-mcp/sessions.json)",
+    ),
+  focusPopups: z
+    .boolean()
+    .optional()
+    .describe(
+      "Make tabs opened by a page, such as popups, the active tab (default: true)",
+    ),
 });
 
-// Configuration schema for Smithery - matches existing Config interface
-export const configSchema = z
-  .object({
-    browserbaseApiKey: z.string().describe("The Browserbase API Key to use"),
-    browserbaseProjectId: z
-      .string()
-      .describe("The Browserbase Project ID to use"),
-    proxies: z
-      .boolean()
-      .optional()
-      .describe("Whether or not to use Browserbase proxies"),
-    advancedStealth: z
-      .boolean()
-      .optional()
-      .describe(
-        "Use advanced stealth mode. Only available to Browserbase Scale Plan users",
-      ),
-    context: z
-      .object({
-        contextId: z
-          .string()
-          .optional()
-          .describe("The ID of the context to use"),
-        persist: z
-          .boolean()
-          .optional()
-          .describe("Whether or not to persist the context"),
-      })
-      .optional(),
-    viewPort: z
-      .object({
-        browserWidth: z
-          .number()
-          .optional()
-          .describe("The width of the browser"),
-        browserHeight: z
-          .number()
-          .optional()
-          .describe("The height of the browser"),
-      })
-      .optional(),
-    cookies: z
-      .array(cookieSchema)
-      .optional()
-      .describe("Cookies to inject into the Browserbase context"),
-    server: z
-      .object({
-        port: z
-          .number()
-          .optional()
-          .describe("The port to listen on for SHTTP or MCP transport"),
-        host: z
-          .string()
-          .optional()
-          .describe(
-            "The host to bind the server to. Default is localhost. Use 0.0.0.0 to bind to all interfaces",
-          ),
-      })
-      .optional(),
-    modelName: AvailableModelSchema.optional().describe(
-      "The model to use for Stagehand (default: google/gemini-2.0-flash)",
-    ), // Already an existing Zod Enum
-    modelApiKey: z
-      .string()
-      .optional()
-      .describe(
-        "API key for the custom model provider. Required when using a model other than the default google/gemini-2.0-flash",
-      ),
-  })
+// Configuration schema for Smithery, with the cross-field rules
+export const configSchema = configObjectSchema
   .refine(
-    (data) => {
-      // If a non-default model is explicitly specified, API key is required
-      if (data.modelName && data.modelName !== "google/gemini-2.0-flash") {
-        return data.modelApiKey !== undefined && data.modelApiKey.length > 0;
-      }
-      return true;
-    },
+    // If a non-default model is explicitly specified, API key is required
+    (data) => !lacksModelApiKey(data),
     {
       message: "modelApiKey is required when specifying a custom model",
       path: ["modelApiKey"],
     },
+  )
+  .refine(
+    (data) =>
+      resolveProviderName(data) !== "browserbase" ||
+      data.credentialOverrides === "require" ||
+      !!data.browserbaseApiKey,
+    {
+      message: "browserbaseApiKey is required for the browserbase provider",
+      path: ["browserbaseApiKey"],
+    },
+  )
+  .refine(
+    (data) =>
+      resolveProviderName(data) !== "browserbase" ||
+      data.credentialOverrides === "require" ||
+      !!data.browserbaseProjectId,
+    {
+      message: "browserbaseProjectId is required for the browserbase provider",
+      path: ["browserbaseProjectId"],
+    },
   );
 
 // Default function for Smithery
-export default function ({ config }: { config: z.infer<typeof configSchema> }) {
-  if (!config.browserbaseApiKey) {
-    throw new Error("browserbaseApiKey is required");
-  }
-  if (!config.browserbaseProjectId) {
-    throw new Error("browserbaseProjectId is required");
+export default function ({
+  config,
+  ...connection
+}: {
+  config: z.infer<typeof configSchema>;
+} & ConnectionOptions) {
+  // With required overrides, each connection brings its own Browserbase keys
+  if (
+    resolveProviderName(config) === "browserbase" &&
+    config.credentialOverrides !== "require"
+  ) {
+    if (!config.browserbaseApiKey) {
+      throw new Error("browserbaseApiKey is required");
+    }
+    if (!config.browserbaseProjectId) {
+      throw new Error("browserbaseProjectId is required");
+    }
   }
 
   const server = new McpServer({
@@ -143,7 +369,25 @@ export default function ({ config }: { config: z.infer<typeof configSchema> }) {
   const internalConfig: Config = config as Config;
 
   // Create the context, passing server instance and config
-  const context = new Context(server.server, internalConfig);
+  const context = new Context(server.server, internalConfig, connection);
+
+  // Pick up credentials sent in the initialize params
+  server.server.oninitialized = () => {
+    context.addCredentials(
+      credentialsFromCapabilities(server.server.getClientCapabilities()),
+    );
+  };
+
+  // Close this connection's browsers when its transport closes
+  server.server.onclose = () => {
+    context.close().catch((error) => {
+      process.stderr.write(
+        `[Context] Error closing sessions for connection ${context.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`,
+      );
+    });
+  };
 
   server.server.registerCapabilities({
     resources: {
@@ -154,6 +398,7 @@ export default function ({ config }: { config: z.infer<typeof configSchema> }) {
       listChanged: true,
     },
     sampling: {},
+    logging: {},
   });
 
   // Add resource handlers
@@ -185,7 +430,8 @@ export default function ({ config }: { config: z.infer<typeof configSchema> }) {
     return prompt;
   });
 
-  const tools: MCPToolsArray = [...TOOLS];
+  // Only register enabled tools so disabled ones never appear in tools/list
+  const tools: MCPToolsArray = filterTools(TOOLS, internalConfig);
 
   // Register each tool with the Smithery server
   tools.forEach((tool) => {
@@ -53,20 +53,20 @@ CAPABILITIES:
 - Structured data extraction from any webpage
 
 TOOL SELECTION GUIDE:
-For SINGLE browser tasks: Use "browserbase_session_create" then regular tools
-For MULTIPLE browser tasks: Use "multi_browserbase_stagehand_session_create" then session-specific tools
+- Start with "browserbase_session_create"; it becomes the active session
+- Every browser tool works on the active session unless you pass a "sessionId"
 
-MULTI-SESSION INDICATORS - Use multi-session tools when you see:
+MULTI-SESSION INDICATORS - Run several sessions when you see:
 - "parallel", "multiple", "simultaneously", "concurrent"
 - "different accounts", "A/B test", "compare"
 - "multiple sites", "batch processing"
 - Any task requiring more than one browser instance
 
 MULTI-SESSION WORKFLOW:
-1. Create sessions: "multi_browserbase_stagehand_session_create" (give descriptive names)
-2. Track sessions: "multi_browserbase_stagehand_session_list"
-3. Use session tools: "multi_browserbase_stagehand_navigate_session", etc.
-4. Cleanup: "multi_browserbase_stagehand_session_close"
+1. Create sessions: "browserbase_session_create" with "newSession": true (give descriptive names)
+2. Track sessions: "browserbase_session_list"
+3. Pass each session's ID as "sessionId" to the regular tools, e.g. "browserbase_stagehand_navigate"
+4. Cleanup: "browserbase_session_close" with the "sessionId"
 
 BEST PRACTICES:
 - Use descriptive session names for easier tracking
@@ -92,7 +92,7 @@ When using this server, think of it as controlling real browsers in the cloud. Y
             type: "text",
             text: `Multi-Session Browser Automation Guidance
 
-WHEN TO USE MULTI-SESSION TOOLS:
+WHEN TO USE MULTIPLE SESSIONS:
 - Parallel data collection from multiple websites
 - A/B testing with different user flows
 - Authentication with multiple user accounts simultaneously  
@@ -100,26 +100,26 @@ WHEN TO USE MULTI-SESSION TOOLS:
 - Load testing or performance simulation
 - Any task requiring more than one browser instance
 
-TOOL NAMING PATTERNS:
-- Session Management: "multi_browserbase_stagehand_session_*"
-- Browser Actions: "multi_browserbase_stagehand_*_session" 
+HOW SESSIONS ARE ADDRESSED:
+- Every browser tool takes an optional "sessionId"
+- Without it, tools use the active session (the last one created or switched to with "browserbase_session_create")
 
 RECOMMENDED WORKFLOW:
-1. Create sessions: "multi_browserbase_stagehand_session_create" (give each a descriptive name)
-2. List sessions: "multi_browserbase_stagehand_session_list" (to track active sessions)
-3. Use session-specific tools: "multi_browserbase_stagehand_navigate_session", "multi_browserbase_stagehand_act_session", etc.
-4. Clean up: "multi_browserbase_stagehand_session_close" when done
+1. Create sessions: "browserbase_session_create" with "newSession": true (give each a descriptive "name")
+2. List sessions: "browserbase_session_list" (to track active sessions and their IDs)
+3. Use the regular tools with a "sessionId": "browserbase_stagehand_navigate", "browserbase_stagehand_act", etc.
+4. Clean up: "browserbase_session_close" with the "sessionId" when done
 
 IMPORTANT RULES:
-- Always use session-specific tools (with "_session" suffix) when working with multiple sessions
+- Always pass "sessionId" when working with multiple sessions, so actions go to the intended browser
 - Each session maintains independent cookies, authentication, and browser state
 - Always close sessions when finished to free resources
 - Use descriptive session names for easier tracking
 - No need to create backup sessions - sessions are reliable and persistent
 
 SINGLE VS MULTI-SESSION:
-- Single: "browserbase_session_create" → "browserbase_stagehand_navigate" 
-- Multi: "multi_browserbase_stagehand_session_create" → "multi_browserbase_stagehand_navigate_session"`,
+- Single: "browserbase_session_create" → "browserbase_stagehand_navigate"
+- Multi: "browserbase_session_create" (newSession) → "browserbase_stagehand_navigate" with "sessionId"`,
           },
         },
       ],
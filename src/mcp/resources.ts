@@ -10,17 +10,48 @@ export const RESOURCES = [];
 // Define the resource templates
 export const RESOURCE_TEMPLATES = [];
 
-// Store screenshots in a map
-export const screenshots = new Map<string, string>();
+// Screenshots by MCP connection and name, so every connection only sees its own
+const screenshots = new Map<string, Map<string, string>>();
+
+/**
+ * Store a base64-encoded screenshot for a connection
+ */
+export function saveScreenshot(owner: string, name: string, data: string) {
+  if (!screenshots.has(owner)) screenshots.set(owner, new Map());
+  screenshots.get(owner)!.set(name, data);
+}
+
+/**
+ * Forget the screenshots of a closed MCP connection
+ */
+export function dropScreenshots(owner: string) {
+  screenshots.delete(owner);
+}
+
+/**
+ * Number and base64 size of the screenshots held for all connections
+ */
+export function screenshotStats() {
+  let count = 0;
+  let bytes = 0;
+  for (const byName of screenshots.values()) {
+    for (const data of byName.values()) {
+      count++;
+      bytes += data.length;
+    }
+  }
+  return { count, bytes };
+}
 
 /**
  * Handle listing resources request
+ * @param owner The MCP connection whose screenshots to list
  * @returns A list of available resources including screenshots
  */
-export function listResources() {
+export function listResources(owner: string) {
   return {
     resources: [
-      ...Array.from(screenshots.keys()).map((name) => ({
+      ...Array.from(screenshots.get(owner)?.keys() ?? []).map((name) => ({
         uri: `screenshot://${name}`,
         mimeType: "image/png",
         name: `Screenshot: ${name}`,
@@ -39,13 +70,14 @@ export function listResourceTemplates() {
 
 /**
  * Read a resource by its URI
+ * @param owner The MCP connection reading it
  * @param uri The URI of the resource to read
  * @returns The resource content or throws if not found
  */
-export function readResource(uri: string) {
+export function readResource(owner: string, uri: string) {
   if (uri.startsWith("screenshot://")) {
     const name = uri.split("://")[1];
-    const screenshot = screenshots.get(name);
+    const screenshot = screenshots.get(owner)?.get(name);
     if (screenshot) {
       return {
         contents: [
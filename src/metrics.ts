@@ -0,0 +1,155 @@
+/**
+ * Minimal Prometheus metrics registry, rendered in the text exposition format
+ * https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+type Labels = Record<string, string>;
+
+type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render: () => string[];
+};
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+}
+
+function register(metric: Metric): void {
+  if (registry.some((existing) => existing.name === metric.name)) {
+    throw new Error(`Metric ${metric.name} is already registered`);
+  }
+  registry.push(metric);
+}
+
+/**
+ * A monotonically increasing count, per label set
+ */
+export function counter(name: string, help: string) {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  register({
+    name,
+    help,
+    type: "counter",
+    render: () =>
+      Array.from(values.values()).map(
+        ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+      ),
+  });
+
+  return {
+    inc: (labels: Labels = {}, amount: number = 1) => {
+      const key = formatLabels(labels);
+      const entry = values.get(key) ?? { labels, value: 0 };
+      entry.value += amount;
+      values.set(key, entry);
+    },
+  };
+}
+
+/**
+ * A value read from the process state every time metrics are scraped
+ */
+export function gauge(
+  name: string,
+  help: string,
+  collect: () => { labels?: Labels; value: number }[],
+): void {
+  register({
+    name,
+    help,
+    type: "gauge",
+    render: () =>
+      collect().map(
+        ({ labels = {}, value }) => `${name}${formatLabels(labels)} ${value}`,
+      ),
+  });
+}
+
+/**
+ * A distribution of observed values in cumulative buckets, per label set
+ */
+export function histogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+  register({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map(
+          (bound, i) =>
+            `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`,
+        ),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+  });
+
+  return {
+    observe: (labels: Labels, value: number) => {
+      const key = formatLabels(labels);
+      const entry = series.get(key) ?? {
+        labels,
+        counts: buckets.map(() => 0),
+        sum: 0,
+        count: 0,
+      };
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+  };
+}
+
+/**
+ * Render every registered metric for a /metrics scrape
+ */
+export function renderMetrics(): string {
+  return (
+    registry
+      .flatMap((metric) => [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.render(),
+      ])
+      .join("\n") + "\n"
+  );
+}
+
+export const toolCalls = counter(
+  "browserbase_mcp_tool_calls_total",
+  "Tool calls by tool name and outcome (success or error)",
+);
+
+export const toolCallDuration = histogram(
+  "browserbase_mcp_tool_call_duration_seconds",
+  "Tool call latency in seconds by tool name",
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+);
+
+export const sessionCreateFailures = counter(
+  "browserbase_mcp_session_create_failures_total",
+  "Browser sessions that failed to start, by provider",
+);
@@ -0,0 +1,32 @@
+import type { Stagehand } from "@browserbasehq/stagehand";
+import type { Page as PlaywrightPage } from "playwright-core";
+
+/**
+ * Stagehand acts on one page at a time and switches to every page that opens.
+ * These helpers read and change that page through Stagehand's page tracking,
+ * which it does not expose publicly.
+ */
+
+type StagehandContextInternals = {
+  getStagehandPage(page: PlaywrightPage): Promise<unknown>;
+};
+
+/**
+ * The Playwright page Stagehand currently acts on
+ */
+export function activePlaywrightPage(stagehand: Stagehand): PlaywrightPage {
+  return stagehand.page.mainFrame().page();
+}
+
+/**
+ * Make Stagehand act on a page, e.g. after a helper page was opened and closed
+ */
+export async function activatePage(
+  stagehand: Stagehand,
+  page: PlaywrightPage,
+): Promise<void> {
+  const { stagehandContext } = stagehand as unknown as {
+    stagehandContext: StagehandContextInternals;
+  };
+  await stagehandContext.getStagehandPage(page);
+}
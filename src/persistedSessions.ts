@@ -0,0 +1,300 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Config } from "../config.d.ts";
+import type { BrowserSession, CreateSessionParams } from "./types/types.js";
+import { getProvider, type ProviderName } from "./providers/index.js";
+import * as sessionRegistry from "./sessionRegistry.js";
+import type { CreateSessionOptions } from "./sessionRegistry.js";
+import {
+  withSessionSettings,
+  type SessionSettings,
+} from "./sessionSettings.js";
+
+/**
+ * Sessions whose browsers keep running while the server is disconnected from
+ * them. They are recorded in a state file, so they can be reattached under
+ * the same ID by this process or, after a restart, by the next one.
+ */
+
+export type DetachedSession = {
+  id: string; // MCP-side ID, kept when reattaching
+  name?: string;
+  principal?: string; // only this caller may reattach it
+  provider: ProviderName;
+  providerSessionId?: string;
+  params: CreateSessionParams; // reattach to the same browser
+  settings: SessionSettings;
+  created: number;
+  lastUsed: number;
+  detached: number;
+  reason: "tool" | "exit"; // detached by a tool call, or when the server exited
+};
+
+type StateFile = { version: 1; sessions: DetachedSession[] };
+
+type SessionOwner = Pick<CreateSessionOptions, "owner" | "principal">;
+
+// Updates of the state file, one at a time
+let updating: Promise<unknown> = Promise.resolve();
+
+function stateFile(config: Config): string {
+  return (
+    config.sessionStateFile ??
+    path.join(os.homedir(), ".browserbase-mcp", "sessions.json")
+  );
+}
+
+async function readState(config: Config): Promise<DetachedSession[]> {
+  const file = stateFile(config);
+  let text: string;
+  try {
+    text = await fs.promises.readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  const state = JSON.parse(text) as StateFile;
+  if (state.version !== 1 || !Array.isArray(state.sessions)) {
+    throw new Error(`${file} is not a session state file`);
+  }
+  return state.sessions;
+}
+
+async function writeState(
+  config: Config,
+  sessions: DetachedSession[],
+): Promise<void> {
+  const file = stateFile(config);
+  const state: StateFile = { version: 1, sessions };
+  await fs.promises.mkdir(path.dirname(file), {
+    recursive: true,
+    mode: 0o700,
+  });
+  // Write a copy and rename it, so a crash never leaves half a file. Session
+  // settings can hold cookies, so only the server's user may read it.
+  const partial = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(partial, JSON.stringify(state, null, 2), {
+    mode: 0o600,
+  });
+  await fs.promises.rename(partial, file);
+}
+
+// Read, change and write the state file, after any update in progress.
+// The file is left alone when the change returns the same array.
+function updateState<T>(
+  config: Config,
+  change: (sessions: DetachedSession[]) => [DetachedSession[], T],
+): Promise<T> {
+  const update = updating.then(async () => {
+    const current = await readState(config);
+    const [sessions, result] = change(current);
+    if (sessions !== current) await writeState(config, sessions);
+    return result;
+  });
+  updating = update.catch(() => {});
+  return update;
+}
+
+// Creation parameters that reattach to the browser, without credentials:
+// reattaching uses those of the connection
+function persistableParams(params: CreateSessionParams): CreateSessionParams {
+  return {
+    provider: params.provider,
+    projectId: params.projectId,
+    modelName: params.modelName,
+    browserbaseSessionID: params.browserbaseSessionID,
+    cdpUrl: params.cdpUrl,
+  };
+}
+
+function isVisible(entry: DetachedSession, principal?: string): boolean {
+  return entry.principal === principal;
+}
+
+/**
+ * Disconnect from a session, leaving its browser running, and record it so
+ * it can be reattached
+ */
+export async function detachSession(
+  config: Config,
+  session: BrowserSession,
+  reason: DetachedSession["reason"],
+): Promise<DetachedSession> {
+  const provider = getProvider(config, session.provider);
+  const params = provider.keepsAlive?.(config)
+    ? provider.reconnectParams?.(session.stagehand, session.params)
+    : null;
+  if (!params) {
+    throw new Error(
+      session.provider === "browserbase"
+        ? "Browserbase sessions can only be detached when the server runs with persistSessions, which creates them with keep-alive"
+        : `Sessions of the ${session.provider} provider cannot be detached; their browser exits with the server`,
+    );
+  }
+
+  const entry: DetachedSession = {
+    id: session.id,
+    name: session.name,
+    principal: session.principal,
+    provider: session.provider,
+    providerSessionId: session.providerSessionId,
+    params: persistableParams(params),
+    settings: session.settings,
+    created: session.created,
+    lastUsed: session.lastUsed,
+    detached: Date.now(),
+    reason,
+  };
+  // Record the session before letting go of it
+  await updateState(config, (sessions) => [
+    [...sessions.filter((s) => s.id !== entry.id), entry],
+    undefined,
+  ]);
+  await sessionRegistry.detach(session.id);
+  process.stderr.write(
+    `[PersistedSessions] Detached session ${session.id} (${reason})\n`,
+  );
+  return entry;
+}
+
+/**
+ * Detach every session that can be kept and close the others. Runs when the
+ * server exits with persistSessions set.
+ * @param keepUnauthenticated Also keep sessions without a principal. Only
+ * for stdio, whose single client is the only one that could reattach them.
+ */
+export async function detachAll(
+  config: Config,
+  keepUnauthenticated: boolean,
+): Promise<void> {
+  const sessions = sessionRegistry
+    .list()
+    .filter((session) => keepUnauthenticated || session.principal);
+  process.stderr.write(
+    `[PersistedSessions] Keeping ${sessions.length} sessions for the next start...\n`,
+  );
+  await Promise.all(
+    sessions.map((session) =>
+      detachSession(config, session, "exit").catch(async (error) => {
+        process.stderr.write(
+          `[PersistedSessions] Closing session ${session.id} instead: ${
+            error instanceof Error ? error.message : String(error)
+          }\n`,
+        );
+        await sessionRegistry.remove(session.id);
+      }),
+    ),
+  );
+}
+
+/**
+ * The detached sessions a caller may reattach
+ */
+export async function listDetached(
+  config: Config,
+  principal?: string,
+): Promise<DetachedSession[]> {
+  return (await readState(config)).filter((s) => isVisible(s, principal));
+}
+
+/**
+ * Reattach a detached session and register it for a connection
+ * @param id Its MCP-side or provider session ID
+ * @returns The session, or null if no such session is detached
+ */
+export async function reattachSession(
+  config: Config,
+  id: string,
+  owner: SessionOwner,
+): Promise<BrowserSession | null> {
+  // Take the entry out of the file, so two connections can't both reattach it
+  const entry = await updateState(config, (sessions) => {
+    const found = sessions.find(
+      (s) =>
+        isVisible(s, owner.principal) &&
+        (s.id === id || s.providerSessionId === id),
+    );
+    return [found ? sessions.filter((s) => s !== found) : sessions, found];
+  });
+  if (!entry) return null;
+
+  process.stderr.write(
+    `[PersistedSessions] Reattaching session ${entry.id}...\n`,
+  );
+  try {
+    const session = await sessionRegistry.create(
+      withSessionSettings(config, entry.settings),
+      entry.params,
+      { ...owner, name: entry.name, id: entry.id },
+    );
+    // Lifetime limits count from the original creation
+    session.created = entry.created;
+    return session;
+  } catch (error) {
+    const alive = await isAlive(config, entry);
+    if (alive !== false) {
+      // Maybe a passing failure; keep the session for another attempt
+      await updateState(config, (sessions) => [
+        [...sessions, entry],
+        undefined,
+      ]);
+    }
+    throw new Error(
+      `Could not reattach session ${entry.id}${
+        alive === false ? ", which has ended" : ""
+      }: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Reattach the most recently used session kept when the server last exited,
+ * so a restarted server carries on where it stopped
+ * @returns The session, or null if none was kept
+ */
+export async function reattachLatest(
+  config: Config,
+  owner: SessionOwner,
+): Promise<BrowserSession | null> {
+  const [latest] = (await listDetached(config, owner.principal))
+    .filter((s) => s.reason === "exit")
+    .sort((a, b) => b.lastUsed - a.lastUsed);
+  return latest ? reattachSession(config, latest.id, owner) : null;
+}
+
+// Whether a detached session's browser is still running, or undefined if unknown
+async function isAlive(
+  config: Config,
+  entry: DetachedSession,
+): Promise<boolean | undefined> {
+  const provider = getProvider(config, entry.provider);
+  try {
+    return await provider.isAlive?.(config, entry.params);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Forget detached sessions whose browsers have ended. Sessions whose state
+ * cannot be checked are kept.
+ */
+export async function pruneDetached(config: Config): Promise<void> {
+  const sessions = await readState(config);
+  if (sessions.length === 0) return;
+
+  const ended = new Set<string>();
+  for (const entry of sessions) {
+    if ((await isAlive(config, entry)) === false) ended.add(entry.id);
+  }
+  if (ended.size > 0) {
+    await updateState(config, (current) => [
+      current.filter((s) => !ended.has(s.id)),
+      undefined,
+    ]);
+  }
+  process.stderr.write(
+    `[PersistedSessions] ${sessions.length - ended.size} detached sessions can be reattached, pruned ${ended.size} that ended\n`,
+  );
+}
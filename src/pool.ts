@@ -0,0 +1,233 @@
+import { randomUUID } from "crypto";
+import { isDeepStrictEqual } from "util";
+import type { Stagehand } from "@browserbasehq/stagehand";
+import type { Config } from "../config.d.ts";
+import type { CreateSessionParams } from "./types/types.js";
+import {
+  closeStagehand,
+  getProvider,
+  type ProviderName,
+} from "./providers/index.js";
+import { registerReapTask } from "./reaper.js";
+import { quotaStatus } from "./quota.js";
+import { sessionSettings } from "./sessionSettings.js";
+
+/**
+ * Warm pool of initialized Stagehand sessions created with the server config.
+ * Session creation claims a pooled session when the request uses default
+ * settings, and the pool is replenished in the background.
+ *
+ * Warm browsers count against `concurrency.maxSessions` like live sessions:
+ * the pool only fills free slots, and gives them up to sessions it can't serve.
+ */
+
+type PooledSession = {
+  id: string;
+  stagehand: Stagehand;
+  provider: ProviderName;
+  config: Config; // created with
+  created: number;
+};
+
+const pooled: PooledSession[] = [];
+
+// The server config the pool creates sessions with, set by startPool
+let poolConfig: Config | undefined;
+// Sessions currently being created
+let pending = 0;
+let unregisterReapTask: (() => void) | undefined;
+
+function poolSize(config: Config): number {
+  return config.pool?.size ?? 0;
+}
+
+function poolTtl(config: Config): number {
+  return config.pool?.ttl ?? 240;
+}
+
+function isConnected(session: PooledSession): boolean {
+  return session.stagehand.context.browser()?.isConnected() ?? false;
+}
+
+async function closePooled(session: PooledSession, reason: string) {
+  process.stderr.write(`[Pool] Closing ${session.id}: ${reason}\n`);
+  try {
+    await closeStagehand(
+      session.provider,
+      session.stagehand,
+      session.config,
+      {},
+    );
+  } catch (error) {
+    process.stderr.write(
+      `[Pool] WARN - Error closing ${session.id}: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`,
+    );
+  }
+}
+
+// Browsers counted against maxSessions: live sessions, and the pool's own
+// including those still starting
+function browserCount(config: Config): number {
+  return quotaStatus(config, "").inUse + pooled.length + pending;
+}
+
+function maxBrowsers(config: Config): number {
+  return config.concurrency?.maxSessions || Infinity;
+}
+
+// Create sessions until the pool is full again. Stops at the first failure
+// and tries again on the next reaper tick.
+async function replenish(): Promise<void> {
+  const config = poolConfig;
+  if (!config) return;
+
+  while (
+    pooled.length + pending < poolSize(config) &&
+    browserCount(config) < maxBrowsers(config)
+  ) {
+    const id = `pool_${randomUUID()}`;
+    const provider = getProvider(config);
+    pending++;
+    try {
+      const stagehand = await provider.createStagehand(config, {}, id);
+      if (poolConfig !== config) {
+        // The pool was drained while this session was starting
+        await closeStagehand(provider.name, stagehand, config, {});
+        return;
+      }
+      if (browserCount(config) > maxBrowsers(config)) {
+        // Live sessions took the free slots while this one was starting
+        await closeStagehand(provider.name, stagehand, config, {});
+        return;
+      }
+      pooled.push({
+        id,
+        stagehand,
+        provider: provider.name,
+        config,
+        created: Date.now(),
+      });
+      process.stderr.write(
+        `[Pool] Warm session ready: ${id} (${pooled.length}/${poolSize(config)})\n`,
+      );
+    } catch (error) {
+      process.stderr.write(
+        `[Pool] Failed to create warm session: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`,
+      );
+      return;
+    } finally {
+      pending--;
+    }
+  }
+}
+
+// Recycle sessions that are disconnected or older than the TTL, then refill
+async function recycle(): Promise<void> {
+  const config = poolConfig;
+  if (!config) return;
+
+  const ttl = poolTtl(config) * 1000;
+  for (const session of [...pooled]) {
+    const reason = !isConnected(session)
+      ? "disconnected"
+      : Date.now() - session.created >= ttl
+        ? "unclaimed past its TTL"
+        : null;
+    if (!reason) continue;
+    pooled.splice(pooled.indexOf(session), 1);
+    await closePooled(session, reason);
+  }
+
+  await replenish();
+}
+
+/**
+ * Start filling the pool when `pool.size` is configured
+ */
+export function startPool(config: Config): void {
+  if (poolSize(config) <= 0) return;
+  poolConfig = config;
+  unregisterReapTask = registerReapTask(recycle);
+  process.stderr.write(
+    `[Pool] Keeping ${poolSize(config)} warm sessions (TTL ${poolTtl(config)}s)\n`,
+  );
+  void replenish();
+}
+
+/**
+ * Take a warm session for a request, or null when the pool cannot serve it.
+ * Only requests with the server's own settings and credentials are served,
+ * since pooled sessions were created with them. Sessions with settings
+ * overrides always start fresh.
+ */
+export function claimPooledStagehand(
+  config: Config,
+  params: CreateSessionParams,
+): Stagehand | null {
+  if (!poolConfig || pooled.length === 0) return null;
+
+  const usesDefaults =
+    !params.browserbaseSessionID &&
+    !params.cdpUrl &&
+    !params.apiKey &&
+    !params.projectId &&
+    !params.modelName &&
+    !params.modelApiKey &&
+    !params.browserbaseSessionCreateParams &&
+    (!params.provider || params.provider === getProvider(poolConfig).name);
+  const sameCredentials =
+    config.browserbaseApiKey === poolConfig.browserbaseApiKey &&
+    config.browserbaseProjectId === poolConfig.browserbaseProjectId &&
+    config.modelApiKey === poolConfig.modelApiKey;
+  const sameSettings = isDeepStrictEqual(
+    sessionSettings(config),
+    sessionSettings(poolConfig),
+  );
+  if (!usesDefaults || !sameCredentials || !sameSettings) return null;
+
+  while (pooled.length > 0) {
+    const session = pooled.shift()!;
+    if (!isConnected(session)) {
+      void closePooled(session, "disconnected");
+      continue;
+    }
+    process.stderr.write(`[Pool] Claimed warm session ${session.id}\n`);
+    void replenish();
+    return session.stagehand;
+  }
+  return null;
+}
+
+/**
+ * Close warm sessions until a new browser outside the pool fits within
+ * maxSessions. Call with the new session's slot already taken.
+ */
+export async function makeRoomInPool(config: Config): Promise<void> {
+  const closing: Promise<void>[] = [];
+  while (pooled.length > 0 && browserCount(config) > maxBrowsers(config)) {
+    closing.push(closePooled(pooled.shift()!, "making room for a new session"));
+  }
+  await Promise.all(closing);
+}
+
+/**
+ * Close every pooled session and stop replenishing. Used when the process exits.
+ */
+export async function drainPool(): Promise<void> {
+  unregisterReapTask?.();
+  unregisterReapTask = undefined;
+  const sessions = pooled.splice(0);
+  await Promise.all(sessions.map((session) => closePooled(session, "drain")));
+  poolConfig = undefined;
+}
+
+/**
+ * Number of warm sessions ready to be claimed
+ */
+export function pooledCount(): number {
+  return pooled.length;
+}
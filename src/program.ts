@@ -1,14 +1,25 @@
-import { program } from "commander";
+import { Option, program } from "commander";
 import * as fs from "fs";
 import * as path from "path";
 import { fileURLToPath } from "url";
 
 import createServerFunction from "./index.js";
 import { ServerList } from "./server.js";
-import { startHttpTransport, startStdioTransport } from "./transport.js";
-import * as stagehandStore from "./stagehandStore.js";
+import {
+  beginShutdown,
+  startHttpTransport,
+  startStdioTransport,
+} from "./transport.js";
+import * as sessionRegistry from "./sessionRegistry.js";
 
 import { resolveConfig } from "./config.js";
+import type { Config } from "../config.d.ts";
+import { PROVIDER_NAMES } from "./providers/index.js";
+import { TOOL_CAPABILITIES } from "./tools/tool.js";
+import { createAuthenticator } from "./auth.js";
+import { connectionLifetime, startReaper } from "./reaper.js";
+import { drainPool, startPool } from "./pool.js";
+import { detachAll, pruneDetached } from "./persistedSessions.js";
 
 let __filename: string;
 let __dirname: string;
@@ -33,9 +44,47 @@ const packageJSON = JSON.parse(packageJSONBuffer.toString());
 program
   .version("Version " + packageJSON.version)
   .name(packageJSON.name)
+  .option(
+    "--config <path>",
+    "Path to a JSON or YAML config file. Environment variables and CLI flags override its values.",
+  )
   .option("--browserbaseApiKey <key>", "The Browserbase API Key to use")
   .option("--browserbaseProjectId <id>", "The Browserbase Project ID to use")
+  .addOption(
+    new Option(
+      "--provider <provider>",
+      "Browser provider to use for sessions.",
+    ).choices(PROVIDER_NAMES),
+  )
+  .option(
+    "--headless [boolean]",
+    "Run the local Chromium without a window (local provider only). Default is true.",
+  )
+  .option(
+    "--executablePath <path>",
+    "Path to the Chromium or Chrome executable to launch (local provider only).",
+  )
+  .option(
+    "--cdpEndpoint <url>",
+    "CDP endpoint of an already-running browser to attach to instead of starting Browserbase sessions (e.g. http://localhost:9222).",
+  )
+  .option(
+    "--cdpEndpointAllowlist <hosts>",
+    "Comma-separated hosts (host or host:port, * wildcards) that sessions may attach to with their own cdpEndpoint. Unset rejects per-session endpoints.",
+  )
   .option("--proxies", "Use Browserbase proxies.")
+  .option(
+    "--proxyCountry <code>",
+    "Country the Browserbase proxy exits from, as an ISO 3166-1 alpha-2 code (e.g. DE). Requires --proxies.",
+  )
+  .option("--userAgent <agent>", "User agent the browser reports.")
+  .option("--locale <locale>", "Browser locale, e.g. de-DE.")
+  .addOption(
+    new Option(
+      "--dialogPolicy <policy>",
+      "How to answer JavaScript dialogs: accept, dismiss (default) or queue them for the agent.",
+    ).choices(["accept", "dismiss", "queue"]),
+  )
   .option(
     "--advancedStealth",
     "Use advanced stealth mode. Only available to Browserbase Scale Plan users.",
@@ -43,8 +92,7 @@ program
   .option("--contextId <contextId>", "Browserbase Context ID to use.")
   .option(
     "--persist [boolean]",
-    "Whether to persist the Browserbase context",
-    true,
+    "Whether to persist the Browserbase context. Default is true.",
   )
   .option("--port <port>", "Port to listen on for SHTTP transport.")
   .option(
@@ -65,25 +113,159 @@ program
     "--modelApiKey <key>",
     "API key for the custom model provider (required when using custom models)",
   )
+  .option(
+    "--tools <patterns>",
+    "Comma-separated tool name patterns to expose, e.g. 'browserbase_stagehand_*,browserbase_screenshot'. Supports * and ? wildcards.",
+  )
+  .option(
+    "--excludeTools <patterns>",
+    "Comma-separated tool name patterns to hide, e.g. 'browserbase_screenshot'. Takes precedence over --tools.",
+  )
+  .option(
+    "--capabilities <list>",
+    `Comma-separated tool capabilities to expose (${TOOL_CAPABILITIES.join(", ")}).`,
+  )
+  .option(
+    "--legacyMultiSessionTools",
+    "Also expose the multi_* session tools for clients written before every tool accepted a sessionId.",
+  )
+  .option(
+    "--storageStateDir <path>",
+    "Directory where storage state snapshots are saved. Default is ~/.browserbase-mcp/storage-states.",
+  )
+  .option(
+    "--uploadDir <path>",
+    "Directory that files may be uploaded from by path. Paths cannot leave it.",
+  )
+  .option(
+    "--frameTargeting",
+    "Let act, observe and extract work inside iframes. Runs Stagehand in its beta experimental mode.",
+  )
+  .option(
+    "--persistSessions",
+    "Keep browser sessions running when the server exits and reattach to them after a restart.",
+  )
+  .option(
+    "--sessionStateFile <path>",
+    "File where detached and persisted sessions are recorded. Default is ~/.browserbase-mcp/sessions.json.",
+  )
+  .option(
+    "--focusPopups [boolean]",
+    "Make tabs opened by a page, such as popups, the active tab. Default is true.",
+  )
+  .option(
+    "--maxSessions <count>",
+    "Maximum concurrent browser sessions across all connections.",
+  )
+  .option(
+    "--maxSessionsPerConnection <count>",
+    "Maximum concurrent browser sessions per MCP connection.",
+  )
+  .addOption(
+    new Option(
+      "--whenFull <behavior>",
+      "Reject new sessions when a session limit is reached, or queue them until one closes. Default is reject.",
+    ).choices(["reject", "queue"]),
+  )
+  .option(
+    "--queueTimeout <seconds>",
+    "Seconds a queued session request waits before failing. Default is 60.",
+  )
+  .option(
+    "--poolSize <count>",
+    "Number of warm browser sessions to keep ready for session creation. Default is 0.",
+  )
+  .option(
+    "--poolTtl <seconds>",
+    "Seconds an unclaimed pooled session lives before it is replaced. Default is 240.",
+  )
+  .option(
+    "--reconnectAttempts <count>",
+    "Attempts to reattach a dropped browser session before removing it. 0 disables. Default is 3.",
+  )
+  .option(
+    "--sessionIdleTimeout <seconds>",
+    "Close browser sessions unused by any tool for this many seconds. 0 disables (default).",
+  )
+  .option(
+    "--sessionMaxLifetime <seconds>",
+    "Close browser sessions this many seconds after creation. 0 disables (default).",
+  )
+  .option(
+    "--connectionIdleTimeout <seconds>",
+    "Close MCP HTTP sessions without requests for this many seconds. 0 disables (default).",
+  )
+  .option(
+    "--connectionMaxLifetime <seconds>",
+    "Close MCP HTTP sessions this many seconds after initialization. 0 disables (default).",
+  )
+  .addOption(
+    new Option(
+      "--credentialOverrides <policy>",
+      "Whether connections may supply their own Browserbase and model credentials. Default is allow.",
+    ).choices(["require", "allow", "forbid"]),
+  )
+  .option(
+    "--oauthIssuer <url>",
+    "Require OAuth 2.1 access tokens from this issuer on the HTTP transport.",
+  )
+  .option(
+    "--oauthJwksUrl <url>",
+    "JWKS URL used to verify access tokens. Discovered from the issuer by default.",
+  )
+  .option(
+    "--oauthAudience <audience>",
+    "Audience that access tokens must be issued for.",
+  )
   .action(async (options) => {
-    const config = await resolveConfig(options);
-    const serverList = new ServerList(async () =>
+    let config: Config;
+    try {
+      config = await resolveConfig(options);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+    const serverList = new ServerList(async (connection) =>
       createServerFunction({
         config: config,
+        ...connection,
       }),
     );
-    setupExitWatchdog(serverList);
+    setupExitWatchdog(serverList, config);
+    startReaper(config.timeouts?.reaperInterval ?? 30);
+    startPool(config);
+    pruneDetached(config).catch((error) => {
+      process.stderr.write(
+        `[PersistedSessions] Could not read detached sessions: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`,
+      );
+    });
 
-    if (options.port)
-      startHttpTransport(+options.port, options.host, serverList);
+    if (config.server?.port)
+      startHttpTransport(config.server.port, config.server.host, serverList, {
+        authenticator: createAuthenticator(config.auth),
+        lifetime: connectionLifetime(config),
+      });
     else await startStdioTransport(serverList, config);
   });
 
-function setupExitWatchdog(serverList: ServerList) {
+function setupExitWatchdog(serverList: ServerList, config: Config) {
   const handleExit = async () => {
+    beginShutdown();
     setTimeout(() => process.exit(0), 15000);
     try {
-      await Promise.all([stagehandStore.removeAll(), serverList.closeAll()]);
+      // Keep the browsers running for the next start, before connections close them
+      // Sessions of unauthenticated HTTP clients can't be told apart, so only
+      // stdio keeps those
+      if (config.persistSessions) {
+        await detachAll(config, !config.server?.port);
+      }
+      await Promise.all([
+        sessionRegistry.removeAll(),
+        drainPool(),
+        serverList.closeAll(),
+      ]);
     } catch (error) {
       console.error("Error during cleanup:", error);
     }
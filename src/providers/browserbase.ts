@@ -0,0 +1,115 @@
+import { Stagehand } from "@browserbasehq/stagehand";
+import { Browserbase } from "@browserbasehq/sdk";
+import { baseStagehandOptions, defineProvider } from "./provider.js";
+
+function sessionUrl(sessionId: string): string {
+  return `https://www.browserbase.com/sessions/${sessionId}`;
+}
+
+/**
+ * Cloud browsers hosted by Browserbase
+ */
+export const browserbaseProvider = defineProvider({
+  name: "browserbase",
+  createStagehand: async (config, params, sessionId) => {
+    const apiKey = params.apiKey || config.browserbaseApiKey;
+    const projectId = params.projectId || config.browserbaseProjectId;
+
+    if (!apiKey || !projectId) {
+      throw new Error("Browserbase API Key and Project ID are required");
+    }
+
+    const stagehand = new Stagehand({
+      ...baseStagehandOptions(config, params, sessionId),
+      env: "BROWSERBASE",
+      apiKey,
+      projectId,
+      ...(params.browserbaseSessionID && {
+        browserbaseSessionID: params.browserbaseSessionID,
+      }),
+      browserbaseSessionCreateParams: {
+        projectId,
+        // Outlive the connection, so the session survives a server restart
+        keepAlive: config.persistSessions || undefined,
+        proxies:
+          config.proxies && config.proxyGeolocation
+            ? [{ type: "browserbase", geolocation: config.proxyGeolocation }]
+            : config.proxies,
+        browserSettings: {
+          viewport: {
+            width: config.viewPort?.browserWidth ?? 1024,
+            height: config.viewPort?.browserHeight ?? 768,
+          },
+          context: config.context?.contextId
+            ? {
+                id: config.context?.contextId,
+                persist: config.context?.persist ?? true,
+              }
+            : undefined,
+          advancedStealth: config.advancedStealth ?? undefined,
+          fingerprint: config.locale ? { locales: [config.locale] } : undefined,
+        },
+        userMetadata: {
+          mcp: "true",
+        },
+      },
+    });
+
+    await stagehand.init();
+    return stagehand;
+  },
+  getLiveView: async (config, stagehand) => {
+    const sessionId = stagehand.browserbaseSessionID;
+    if (!sessionId) {
+      throw new Error("No Browserbase session ID available");
+    }
+
+    // Get the debug URL using Browserbase SDK
+    const bb = new Browserbase({
+      apiKey: config.browserbaseApiKey,
+    });
+    const debuggerUrl = (await bb.sessions.debug(sessionId))
+      .debuggerFullscreenUrl;
+
+    return {
+      label: "Browserbase",
+      sessionUrl: sessionUrl(sessionId),
+      debuggerUrl,
+    };
+  },
+  getReplayUrl: sessionUrl,
+  // The remote session keeps running when the connection drops, so resume it by ID
+  reconnectParams: (stagehand, params) =>
+    stagehand.browserbaseSessionID
+      ? { ...params, browserbaseSessionID: stagehand.browserbaseSessionID }
+      : null,
+  close: async (stagehand, config, params) => {
+    await stagehand.close();
+
+    // A session kept alive, or resumed from one that was, keeps running (and
+    // billing) after the disconnect until it is released
+    const sessionId = stagehand.browserbaseSessionID;
+    const apiKey = params.apiKey || config.browserbaseApiKey;
+    const projectId = params.projectId || config.browserbaseProjectId;
+    if (!sessionId || !projectId) return;
+    await new Browserbase({ apiKey }).sessions
+      .update(sessionId, { projectId, status: "REQUEST_RELEASE" })
+      .catch(() => {
+        // Sessions that were not kept alive have ended with the connection
+      });
+  },
+  keepsAlive: (config) => !!config.persistSessions,
+  isAlive: async (config, params) => {
+    if (!params.browserbaseSessionID) return false;
+    const bb = new Browserbase({
+      apiKey: params.apiKey || config.browserbaseApiKey,
+    });
+    try {
+      const session = await bb.sessions.retrieve(params.browserbaseSessionID);
+      return session.status === "RUNNING";
+    } catch (error) {
+      if (error instanceof Browserbase.NotFoundError) return false;
+      throw error;
+    }
+  },
+});
@@ -0,0 +1,90 @@
+import { Stagehand } from "@browserbasehq/stagehand";
+import type { Config } from "../../config.d.ts";
+import type { CreateSessionParams } from "../types/types.js";
+import {
+  baseStagehandOptions,
+  defineProvider,
+  detachStagehand,
+} from "./provider.js";
+
+// Whether a host pattern with * wildcards matches the endpoint's host
+function matchesHost(endpoint: URL, pattern: string): boolean {
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  const host = new RegExp(`^${regex}$`, "i");
+  return host.test(endpoint.host) || host.test(endpoint.hostname);
+}
+
+/**
+ * The endpoint a session attaches to. Endpoints other than the configured
+ * cdpUrl come from clients, so they must be on the allowlist.
+ */
+function endpointFor(config: Config, params: CreateSessionParams): string {
+  const cdpUrl = params.cdpUrl || config.cdpUrl;
+  if (!cdpUrl) {
+    throw new Error(
+      "A CDP endpoint is required to attach to an existing browser",
+    );
+  }
+  if (cdpUrl === config.cdpUrl) return cdpUrl;
+
+  let endpoint: URL;
+  try {
+    endpoint = new URL(cdpUrl);
+  } catch {
+    throw new Error(`Invalid CDP endpoint: ${cdpUrl}`);
+  }
+  const allowlist = config.cdpEndpointAllowlist ?? [];
+  if (!allowlist.some((pattern) => matchesHost(endpoint, pattern))) {
+    throw new Error(
+      allowlist.length === 0
+        ? "Attaching to a CDP endpoint of your own is disabled; the server's cdpEndpointAllowlist is not set"
+        : `CDP endpoint ${endpoint.host} is not in the server's cdpEndpointAllowlist`,
+    );
+  }
+  return cdpUrl;
+}
+
+/**
+ * An already-running browser reached over the Chrome DevTools Protocol,
+ * e.g. `chrome --remote-debugging-port=9222` or a self-hosted browser farm.
+ *
+ * The server did not start this browser, so closing a session only
+ * disconnects from it and leaves the browser and its tabs running.
+ */
+export const cdpProvider = defineProvider({
+  name: "cdp",
+  createStagehand: async (config, params, sessionId) => {
+    const cdpUrl = endpointFor(config, params);
+
+    process.stderr.write(
+      `[CdpProvider] Attaching session ${sessionId} to ${cdpUrl}\n`,
+    );
+    const stagehand = new Stagehand({
+      ...baseStagehandOptions(config, params, sessionId),
+      env: "LOCAL",
+      localBrowserLaunchOptions: {
+        cdpUrl,
+      },
+    });
+
+    await stagehand.init();
+    return stagehand;
+  },
+  getLiveView: async () => null,
+  // The browser outlives our connection, so attach to the same endpoint again
+  reconnectParams: (_stagehand, params) => params,
+  close: detachStagehand,
+  keepsAlive: () => true,
+  isAlive: async (config, params) => {
+    // Ask the browser for its version over HTTP, whatever the endpoint's scheme
+    const endpoint = new URL(endpointFor(config, params));
+    endpoint.protocol = endpoint.protocol.replace(/^ws/, "http");
+    const response = await fetch(new URL("/json/version", endpoint), {
+      signal: AbortSignal.timeout(5000),
+    }).catch(() => null);
+    return response?.ok ?? false;
+  },
+});
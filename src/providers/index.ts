@@ -0,0 +1,57 @@
+import type { Stagehand } from "@browserbasehq/stagehand";
+import type { Config } from "../../config.d.ts";
+import type { CreateSessionParams } from "../types/types.js";
+import type { BrowserProvider, ProviderName } from "./provider.js";
+import { browserbaseProvider } from "./browserbase.js";
+import { localProvider } from "./local.js";
+import { cdpProvider } from "./cdp.js";
+
+export type { BrowserProvider, LiveView, ProviderName } from "./provider.js";
+export { detachStagehand, formatLiveView } from "./provider.js";
+
+export const PROVIDERS: Record<ProviderName, BrowserProvider> = {
+  browserbase: browserbaseProvider,
+  local: localProvider,
+  cdp: cdpProvider,
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as ProviderName[];
+
+/**
+ * Resolve the configured provider name.
+ * A configured CDP endpoint implies the cdp provider.
+ */
+export function resolveProviderName(
+  config: Pick<Config, "provider" | "cdpUrl">,
+): ProviderName {
+  return config.provider ?? (config.cdpUrl ? "cdp" : "browserbase");
+}
+
+/**
+ * Get a provider by name, falling back to the configured provider
+ */
+export function getProvider(
+  config: Config,
+  name: ProviderName = resolveProviderName(config),
+): BrowserProvider {
+  return PROVIDERS[name];
+}
+
+/**
+ * Close a session's Stagehand instance the way its provider requires
+ * @param config The config the session was created with
+ * @param params The parameters the session was created with
+ */
+export async function closeStagehand(
+  provider: ProviderName,
+  stagehand: Stagehand,
+  config: Config,
+  params: CreateSessionParams,
+): Promise<void> {
+  const close = PROVIDERS[provider].close;
+  if (close) {
+    await close(stagehand, config, params);
+  } else {
+    await stagehand.close();
+  }
+}
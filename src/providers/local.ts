@@ -0,0 +1,74 @@
+import net from "node:net";
+import { Stagehand } from "@browserbasehq/stagehand";
+import { chromium } from "playwright-core";
+import { baseStagehandOptions, defineProvider } from "./provider.js";
+
+/**
+ * Ask the OS for a free TCP port for Chromium's remote debugging endpoint
+ */
+async function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const address = server.address();
+      const port = typeof address === "object" && address ? address.port : 0;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Chromium launched on this machine. No Browserbase account is needed.
+ *
+ * The browser is launched here with a remote debugging port and Stagehand
+ * attaches to it over CDP, so it exposes the same Browser object as a
+ * Browserbase session. When Stagehand disconnects the browser is closed.
+ */
+export const localProvider = defineProvider({
+  name: "local",
+  createStagehand: async (config, params, sessionId) => {
+    const width = config.viewPort?.browserWidth ?? 1024;
+    const height = config.viewPort?.browserHeight ?? 768;
+    const port = await findFreePort();
+
+    process.stderr.write(
+      `[LocalProvider] Launching Chromium for session ${sessionId} on port ${port}\n`,
+    );
+    const launched = await chromium.launch({
+      headless: config.localBrowser?.headless ?? true,
+      executablePath: config.localBrowser?.executablePath,
+      args: [
+        `--remote-debugging-port=${port}`,
+        `--window-size=${width},${height}`,
+      ],
+    });
+
+    const stagehand = new Stagehand({
+      ...baseStagehandOptions(config, params, sessionId),
+      env: "LOCAL",
+      localBrowserLaunchOptions: {
+        cdpUrl: `http://127.0.0.1:${port}`,
+      },
+    });
+
+    try {
+      await stagehand.init();
+      await stagehand.page.setViewportSize({ width, height });
+    } catch (error) {
+      await launched.close().catch(() => {});
+      throw error;
+    }
+
+    stagehand.context.browser()?.on("disconnected", () => {
+      process.stderr.write(
+        `[LocalProvider] Closing Chromium for session ${sessionId}\n`,
+      );
+      launched.close().catch(() => {});
+    });
+
+    return stagehand;
+  },
+  getLiveView: async () => null,
+});
@@ -0,0 +1,117 @@
+import type { ConstructorParams, Stagehand } from "@browserbasehq/stagehand";
+import type { Config } from "../../config.d.ts";
+import type { CreateSessionParams } from "../types/types.js";
+
+export type ProviderName = NonNullable<Config["provider"]>;
+
+/**
+ * Links a human can open to watch or debug a running session
+ */
+export type LiveView = {
+  label: string;
+  sessionUrl?: string;
+  debuggerUrl?: string;
+};
+
+export type BrowserProvider = {
+  name: ProviderName;
+  /**
+   * Create and initialize a Stagehand instance backed by this provider
+   */
+  createStagehand: (
+    config: Config,
+    params: CreateSessionParams,
+    sessionId: string,
+  ) => Promise<Stagehand>;
+  /**
+   * Get the live view links for a session, or null if the provider has none
+   */
+  getLiveView: (
+    config: Config,
+    stagehand: Stagehand,
+  ) => Promise<LiveView | null>;
+  /**
+   * Get the URL of a recording that outlives the session, if the provider keeps one
+   */
+  getReplayUrl?: (providerSessionId: string) => string;
+  /**
+   * Parameters that reattach to the same remote browser after its connection
+   * dropped. Providers that cannot reconnect (the browser is gone) omit this.
+   */
+  reconnectParams?: (
+    stagehand: Stagehand,
+    params: CreateSessionParams,
+  ) => CreateSessionParams | null;
+  /**
+   * Close a session's browser, given the config and parameters it was created
+   * with. Defaults to stagehand.close()
+   */
+  close?: (
+    stagehand: Stagehand,
+    config: Config,
+    params: CreateSessionParams,
+  ) => Promise<void>;
+  /**
+   * Whether sessions created with this config keep running after the server
+   * disconnects from them, so they can be detached and reattached with
+   * reconnectParams. Providers whose browser exits with the server omit this.
+   */
+  keepsAlive?: (config: Config) => boolean;
+  /**
+   * Whether the remote browser of a detached session is still running.
+   * Throws when that cannot be determined.
+   */
+  isAlive?: (config: Config, params: CreateSessionParams) => Promise<boolean>;
+};
+
+export function defineProvider(provider: BrowserProvider): BrowserProvider {
+  return provider;
+}
+
+/**
+ * Stagehand options shared by every provider (model, iframes and logging)
+ */
+export function baseStagehandOptions(
+  config: Config,
+  params: CreateSessionParams,
+  sessionId: string,
+): Omit<ConstructorParams, "env"> {
+  return {
+    modelName:
+      params.modelName || config.modelName || "google/gemini-2.0-flash",
+    modelClientOptions: {
+      apiKey: config.modelApiKey || process.env.GEMINI_API_KEY,
+    },
+    // Stagehand's experimental mode enables the iframes option of act,
+    // observe and extract, but is beta and turns off the Stagehand API, so
+    // it is only used when frame targeting is enabled
+    experimental: config.frameTargeting || undefined,
+    logger: (logLine) => {
+      console.error(`Stagehand[${sessionId}]: ${logLine.message}`);
+    },
+  };
+}
+
+/**
+ * Disconnect from a session's browser, leaving it running so that a provider
+ * that keeps sessions alive can reattach to it
+ */
+export async function detachStagehand(stagehand: Stagehand): Promise<void> {
+  // Browser.close() on a CDP connection disconnects without killing the browser
+  await stagehand.context.browser()?.close();
+}
+
+/**
+ * Format live view links as lines of tool output
+ */
+export function formatLiveView(liveView: LiveView | null): string[] {
+  if (!liveView) return [];
+  return [
+    ...(liveView.sessionUrl
+      ? [`${liveView.label} Live Session View URL: ${liveView.sessionUrl}`]
+      : []),
+    ...(liveView.debuggerUrl
+      ? [`${liveView.label} Live Debugger URL: ${liveView.debuggerUrl}`]
+      : []),
+  ];
+}
@@ -0,0 +1,156 @@
+import type { Config } from "../config.d.ts";
+
+/**
+ * Concurrent browser session limits, enforced by the session registry.
+ * Every live browser holds a slot from creation until it is closed or disconnects.
+ */
+
+type Waiter = {
+  owner: string;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+};
+
+type Limits = NonNullable<Config["concurrency"]>;
+
+// Slots held per MCP connection
+const held = new Map<string, number>();
+
+// Requests waiting for a slot, oldest first
+const queue: Waiter[] = [];
+
+// The most recent limits, so releases can hand slots to waiters
+let currentLimits: Limits = {};
+
+function totalHeld(): number {
+  let total = 0;
+  for (const count of held.values()) total += count;
+  return total;
+}
+
+function hasRoom(limits: Limits, owner: string): boolean {
+  return (
+    (!limits.maxSessions || totalHeld() < limits.maxSessions) &&
+    (!limits.maxSessionsPerConnection ||
+      (held.get(owner) ?? 0) < limits.maxSessionsPerConnection)
+  );
+}
+
+// Which limit stops the owner from getting a slot
+function fullMessage(limits: Limits, owner: string): string {
+  if (limits.maxSessions && totalHeld() >= limits.maxSessions) {
+    return `all ${limits.maxSessions} concurrent sessions allowed on this server are in use`;
+  }
+  if (
+    limits.maxSessionsPerConnection &&
+    (held.get(owner) ?? 0) >= limits.maxSessionsPerConnection
+  ) {
+    return `this connection already has ${held.get(owner) ?? 0} of ${limits.maxSessionsPerConnection} allowed concurrent sessions`;
+  }
+  return "earlier requests are waiting for the free session slots";
+}
+
+function take(owner: string): () => void {
+  held.set(owner, (held.get(owner) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = (held.get(owner) ?? 1) - 1;
+    if (count > 0) held.set(owner, count);
+    else held.delete(owner);
+    drainQueue();
+  };
+}
+
+// Hand freed slots to the oldest waiters that fit within the limits
+function drainQueue(): void {
+  for (let i = 0; i < queue.length; ) {
+    const waiter = queue[i];
+    if (!hasRoom(currentLimits, waiter.owner)) {
+      i++;
+      continue;
+    }
+    queue.splice(i, 1);
+    if (waiter.timer) clearTimeout(waiter.timer);
+    waiter.resolve(take(waiter.owner));
+  }
+}
+
+/**
+ * Reserve a session slot for an MCP connection, rejecting or waiting in the
+ * queue when a limit is reached, depending on `concurrency.whenFull`
+ * @returns A function that frees the slot. Calling it more than once is harmless.
+ */
+export async function acquireSlot(
+  config: Config,
+  owner: string,
+): Promise<() => void> {
+  const limits = config.concurrency ?? {};
+  currentLimits = limits;
+
+  // Serve earlier waiters that fit first, e.g. after the limits were raised.
+  // Those left have no room, so they can't use a slot this owner has room for.
+  drainQueue();
+  if (hasRoom(limits, owner)) {
+    return take(owner);
+  }
+
+  if (limits.whenFull !== "queue") {
+    throw new Error(
+      `Session limit reached: ${fullMessage(limits, owner)}. Close a session and try again.`,
+    );
+  }
+
+  const timeout = limits.queueTimeout ?? 60;
+  process.stderr.write(
+    `[Quota] Session limit reached for ${owner}, queueing at position ${queue.length + 1}\n`,
+  );
+  return new Promise((resolve, reject) => {
+    const waiter: Waiter = { owner, resolve, reject };
+    if (timeout > 0) {
+      waiter.timer = setTimeout(() => {
+        const position = queue.indexOf(waiter);
+        if (position !== -1) queue.splice(position, 1);
+        reject(
+          new Error(
+            `Timed out after ${timeout}s waiting for a free session slot: ${fullMessage(limits, owner)}`,
+          ),
+        );
+      }, timeout * 1000);
+    }
+    queue.push(waiter);
+  });
+}
+
+/**
+ * Reject every queued request of a connection, e.g. when it disconnects
+ */
+export function cancelQueued(owner: string): void {
+  for (let i = queue.length - 1; i >= 0; i--) {
+    const waiter = queue[i];
+    if (waiter.owner !== owner) continue;
+    queue.splice(i, 1);
+    if (waiter.timer) clearTimeout(waiter.timer);
+    waiter.reject(new Error("Connection closed while waiting for a session"));
+  }
+}
+
+/**
+ * Slot usage and queue state as seen by one connection
+ */
+export function quotaStatus(config: Config, owner: string) {
+  const limits = config.concurrency ?? {};
+  return {
+    inUse: totalHeld(),
+    maxSessions: limits.maxSessions,
+    connectionInUse: held.get(owner) ?? 0,
+    maxSessionsPerConnection: limits.maxSessionsPerConnection,
+    queued: queue.length,
+    // 1-based queue positions of this connection's waiting requests
+    queuePositions: queue
+      .map((waiter, i) => (waiter.owner === owner ? i + 1 : 0))
+      .filter((position) => position > 0),
+  };
+}
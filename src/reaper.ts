@@ -0,0 +1,129 @@
+import type { Config } from "../config.d.ts";
+
+/**
+ * Idle timeout and maximum lifetime, in seconds. Unset or 0 disables a limit.
+ */
+export type Lifetime = {
+  idleTimeout?: number;
+  maxLifetime?: number;
+};
+
+/**
+ * Timestamps (ms since epoch) of anything the reaper can expire
+ */
+export type Tracked = {
+  created: number;
+  lastUsed: number;
+};
+
+type ReapTask = () => Promise<void>;
+
+// Every registered reap task, run on each reaper tick
+const tasks = new Set<ReapTask>();
+
+let timer: NodeJS.Timeout | undefined;
+// Skip a tick while the previous one is still closing sessions
+let reaping = false;
+
+export function browserSessionLifetime(config: Config): Lifetime {
+  return {
+    idleTimeout: config.timeouts?.sessionIdle,
+    maxLifetime: config.timeouts?.sessionMaxLifetime,
+  };
+}
+
+export function connectionLifetime(config: Config): Lifetime {
+  return {
+    idleTimeout: config.timeouts?.connectionIdle,
+    maxLifetime: config.timeouts?.connectionMaxLifetime,
+  };
+}
+
+/**
+ * When the tracked item expires (ms since epoch), or undefined if it never does
+ */
+export function expiresAt(
+  tracked: Tracked,
+  lifetime: Lifetime,
+): number | undefined {
+  const deadlines = [
+    lifetime.idleTimeout
+      ? tracked.lastUsed + lifetime.idleTimeout * 1000
+      : undefined,
+    lifetime.maxLifetime
+      ? tracked.created + lifetime.maxLifetime * 1000
+      : undefined,
+  ].filter((deadline): deadline is number => deadline !== undefined);
+  return deadlines.length > 0 ? Math.min(...deadlines) : undefined;
+}
+
+/**
+ * Why the tracked item has expired, or null if it is still within its limits
+ */
+export function expiryReason(
+  tracked: Tracked,
+  lifetime: Lifetime,
+  now: number = Date.now(),
+): string | null {
+  if (
+    lifetime.maxLifetime &&
+    now >= tracked.created + lifetime.maxLifetime * 1000
+  ) {
+    return `reached its maximum lifetime of ${lifetime.maxLifetime}s`;
+  }
+  if (
+    lifetime.idleTimeout &&
+    now >= tracked.lastUsed + lifetime.idleTimeout * 1000
+  ) {
+    return `was idle for more than ${lifetime.idleTimeout}s`;
+  }
+  return null;
+}
+
+/**
+ * Register a task that closes expired items. Returns a function that unregisters it.
+ */
+export function registerReapTask(task: ReapTask): () => void {
+  tasks.add(task);
+  return () => {
+    tasks.delete(task);
+  };
+}
+
+async function reap(): Promise<void> {
+  if (reaping) return;
+  reaping = true;
+  try {
+    await runTasks();
+  } finally {
+    reaping = false;
+  }
+}
+
+async function runTasks(): Promise<void> {
+  await Promise.all(
+    Array.from(tasks).map((task) =>
+      task().catch((error) => {
+        process.stderr.write(
+          `[Reaper] Error closing expired sessions: ${
+            error instanceof Error ? error.message : String(error)
+          }\n`,
+        );
+      }),
+    ),
+  );
+}
+
+/**
+ * Start the background reaper. It never keeps the process alive on its own.
+ */
+export function startReaper(intervalSeconds: number): void {
+  stopReaper();
+  timer = setInterval(() => void reap(), intervalSeconds * 1000);
+  timer.unref();
+}
+
+export function stopReaper(): void {
+  if (timer) clearInterval(timer);
+  timer = undefined;
+}
@@ -0,0 +1,48 @@
+import type { Stagehand } from "@browserbasehq/stagehand";
+import type { Config } from "../config.d.ts";
+import type { CreateSessionParams } from "./types/types.js";
+import { getProvider, type ProviderName } from "./providers/index.js";
+
+/**
+ * Try to reattach to the remote browser behind a dropped session, retrying
+ * with exponential backoff
+ * @returns The new Stagehand instance, or null if the provider cannot reconnect
+ * or every attempt failed
+ */
+export async function reconnectStagehand(
+  config: Config,
+  providerName: ProviderName,
+  stagehand: Stagehand,
+  params: CreateSessionParams,
+  sessionId: string,
+): Promise<Stagehand | null> {
+  const provider = getProvider(config, providerName);
+  const resumeParams = provider.reconnectParams?.(stagehand, params);
+  const attempts = config.reconnect?.attempts ?? 3;
+  if (!resumeParams || attempts <= 0) return null;
+
+  let delay = (config.reconnect?.delay ?? 1) * 1000;
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    process.stderr.write(
+      `[Reconnect] Reattaching session ${sessionId} (attempt ${attempt}/${attempts})...\n`,
+    );
+    try {
+      const reconnected = await provider.createStagehand(
+        config,
+        resumeParams,
+        sessionId,
+      );
+      process.stderr.write(`[Reconnect] Session ${sessionId} reattached\n`);
+      return reconnected;
+    } catch (error) {
+      process.stderr.write(
+        `[Reconnect] Attempt ${attempt} for session ${sessionId} failed: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`,
+      );
+      delay *= 2;
+    }
+  }
+  return null;
+}
@@ -1,25 +1,54 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Principal } from "./auth.js";
+import type { ConnectionCredentials } from "./credentials.js";
+
+/**
+ * Per-connection options passed to the server factory
+ */
+export type ConnectionOptions = {
+  principal?: Principal;
+  credentials?: ConnectionCredentials;
+  stdio?: boolean; // the single local client of a stdio server
+};
 
 export class ServerList {
   private _servers: Server[] = [];
-  private _serverFactory: () => Promise<Server>;
+  private _serverFactory: (options: ConnectionOptions) => Promise<Server>;
 
-  constructor(serverFactory: () => Promise<Server>) {
+  constructor(serverFactory: (options: ConnectionOptions) => Promise<Server>) {
     this._serverFactory = serverFactory;
   }
 
-  async create() {
-    const server = await this._serverFactory();
+  async create(options: ConnectionOptions = {}) {
+    const server = await this._serverFactory(options);
     this._servers.push(server);
+
+    // Forget the server once its transport closes, however the connection ended
+    const onclose = server.onclose;
+    server.onclose = () => {
+      onclose?.();
+      this._forget(server);
+    };
     return server;
   }
 
-  async close(server: Server) {
-    await server.close();
+  /**
+   * Number of open MCP connections
+   */
+  size() {
+    return this._servers.length;
+  }
+
+  private _forget(server: Server) {
     const index = this._servers.indexOf(server);
     if (index !== -1) this._servers.splice(index, 1);
   }
 
+  async close(server: Server) {
+    await server.close();
+    this._forget(server);
+  }
+
   async closeAll() {
     await Promise.all(this._servers.map((server) => server.close()));
   }
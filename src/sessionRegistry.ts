@@ -0,0 +1,376 @@
+import { randomUUID } from "crypto";
+import { Page, Stagehand, BrowserContext } from "@browserbasehq/stagehand";
+import type { Cookie } from "playwright-core";
+import { BrowserSession, CreateSessionParams } from "./types/types.js";
+import type { Config } from "../config.d.ts";
+import {
+  closeStagehand,
+  detachStagehand,
+  getProvider,
+} from "./providers/index.js";
+import { sessionCreateFailures } from "./metrics.js";
+import { acquireSlot } from "./quota.js";
+import { claimPooledStagehand, makeRoomInPool } from "./pool.js";
+import { reconnectStagehand } from "./reconnect.js";
+import { applyBrowserIdentity, sessionSettings } from "./sessionSettings.js";
+import { trackTabs } from "./tabs.js";
+import { watchDialogs } from "./dialogs.js";
+
+/**
+ * Every browser session of the process, whichever tool created it.
+ * Sessions are owned by the MCP connection that created them and are
+ * invisible to other connections.
+ */
+
+// Registry of all live sessions, by MCP-side session ID
+const registry = new Map<string, BrowserSession>();
+
+// Disconnect handlers, so intentional closes can detach them first
+const disconnectHandlers = new WeakMap<BrowserSession, () => void>();
+
+/**
+ * Adds cookies to a browser context
+ * @param context Playwright browser context
+ * @param cookies Array of cookies to add
+ */
+export async function addCookiesToContext(
+  context: BrowserContext,
+  cookies: Cookie[],
+): Promise<void> {
+  if (!cookies || cookies.length === 0) {
+    return;
+  }
+
+  try {
+    process.stderr.write(
+      `[SessionRegistry] Adding ${cookies.length} cookies to browser context\n`,
+    );
+    await context.addCookies(cookies);
+    process.stderr.write(
+      `[SessionRegistry] Successfully added cookies to browser context\n`,
+    );
+  } catch (error) {
+    process.stderr.write(
+      `[SessionRegistry] Error adding cookies to browser context: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`,
+    );
+  }
+}
+
+export type CreateSessionOptions = {
+  owner?: string; // ID of the MCP connection creating the session
+  principal?: string; // ID of the authenticated caller creating the session
+  name?: string;
+  id?: string; // ID of a detached session being reattached
+};
+
+/**
+ * Create a new browser session with the configured provider and register it.
+ * Per-session settings are applied by passing a config with them merged in.
+ */
+export const create = async (
+  config: Config,
+  params: CreateSessionParams = {},
+  { owner, principal, name, id: reattachId }: CreateSessionOptions = {},
+): Promise<BrowserSession> => {
+  // Global ID, must be 100% Unique
+  const id = reattachId ?? randomUUID();
+  const provider = getProvider(config, params.provider);
+
+  process.stderr.write(
+    `[SessionRegistry] Creating new ${provider.name} session ${id}${name ? ` (${name})` : ""}...\n`,
+  );
+
+  const releaseSlot = await acquireSlot(config, owner ?? "");
+
+  let stagehand: Stagehand;
+  try {
+    // Take a warm session from the pool, or create and initialize one with
+    // the provider, closing warm sessions if it would not fit next to them
+    const claimed = claimPooledStagehand(config, params);
+    if (!claimed) await makeRoomInPool(config);
+    stagehand = claimed ?? (await provider.createStagehand(config, params, id));
+  } catch (error) {
+    releaseSlot();
+    sessionCreateFailures.inc({ provider: provider.name });
+    throw error;
+  }
+
+  let session: BrowserSession;
+  try {
+    const page = stagehand.page as unknown as Page;
+    const browser = page.context().browser();
+
+    if (!browser) {
+      throw new Error("Failed to get browser from Stagehand page context");
+    }
+
+    // Add cookies to the context if they are provided in the config. A reattached
+    // session got them when it was created and may have changed them since.
+    if (config.cookies && config.cookies.length > 0 && !reattachId) {
+      await addCookiesToContext(
+        page.context() as BrowserContext,
+        config.cookies,
+      );
+    }
+
+    const settings = sessionSettings(config);
+    await applyBrowserIdentity(page.context() as BrowserContext, settings);
+
+    session = {
+      id,
+      name,
+      owner,
+      principal,
+      provider: provider.name,
+      providerSessionId: stagehand.browserbaseSessionID,
+      stagehand,
+      page,
+      browser,
+      tabs: [],
+      tabsOpened: 0,
+      dialogs: [],
+      dialogsOpened: 0,
+      dialogNotices: [],
+      created: Date.now(),
+      lastUsed: Date.now(),
+      releaseSlot,
+      params,
+      config,
+      settings,
+    };
+
+    trackTabs(session, config);
+    watchDialogs(session);
+  } catch (error) {
+    // Don't leave the browser or its slot behind. A detached session being
+    // reattached is only disconnected, so it can be reattached again.
+    await (
+      reattachId
+        ? detachStagehand(stagehand)
+        : closeStagehand(provider.name, stagehand, config, params)
+    ).catch(() => {});
+    releaseSlot();
+    sessionCreateFailures.inc({ provider: provider.name });
+    throw error;
+  }
+
+  registry.set(id, session);
+
+  process.stderr.write(
+    `[SessionRegistry] Session created: ${id} (${provider.name}${stagehand.browserbaseSessionID ? `: ${stagehand.browserbaseSessionID}` : ""})\n`,
+  );
+
+  watchDisconnect(session, config);
+
+  return session;
+};
+
+/**
+ * Reconnect a session when its browser connection drops, keeping its ID and
+ * name, and remove it only once reconnecting fails
+ */
+const watchDisconnect = (session: BrowserSession, config: Config): void => {
+  const { id } = session;
+  const disconnectHandler = () => {
+    if (session.closing || registry.get(id) !== session) return;
+    process.stderr.write(`[SessionRegistry] Session disconnected: ${id}\n`);
+
+    session.reconnecting = reconnectStagehand(
+      config,
+      session.provider,
+      session.stagehand,
+      session.params,
+      id,
+    ).then(async (stagehand) => {
+      session.reconnecting = undefined;
+      const page = stagehand?.page as unknown as Page | undefined;
+      const browser = page?.context().browser();
+
+      if (stagehand && (session.closing || registry.get(id) !== session)) {
+        // Removed while reconnecting; don't leave the new connection behind
+        await closeStagehand(
+          session.provider,
+          stagehand,
+          config,
+          session.params,
+        ).catch(() => {});
+        return false;
+      }
+      if (!stagehand || !page || !browser) {
+        process.stderr.write(
+          `[SessionRegistry] Could not reconnect, removing session: ${id}\n`,
+        );
+        registry.delete(id);
+        session.releaseSlot();
+        return false;
+      }
+
+      Object.assign(session, { stagehand, page, browser });
+      // The reconnected browser has new pages
+      trackTabs(session, config);
+      watchDialogs(session);
+      // User agent and locale overrides don't survive the old CDP connection
+      await applyBrowserIdentity(
+        page.context() as BrowserContext,
+        session.settings,
+      );
+      watchDisconnect(session, config);
+      process.stderr.write(`[SessionRegistry] Session reconnected: ${id}\n`);
+      return true;
+    });
+  };
+
+  session.browser.once("disconnected", disconnectHandler);
+  disconnectHandlers.set(session, disconnectHandler);
+};
+
+/**
+ * Get a session by ID. When an owner is given, sessions of other owners are not found.
+ */
+export const get = (id: string, owner?: string): BrowserSession | null => {
+  const session = registry.get(id);
+  if (!session || (owner !== undefined && session.owner !== owner)) {
+    return null;
+  }
+  return session;
+};
+
+/**
+ * Get a usable session by ID: waits for it to finish reconnecting if its
+ * connection dropped, and removes it if its browser or page is gone
+ */
+export const getConnected = async (
+  id: string,
+  owner?: string,
+): Promise<BrowserSession | null> => {
+  let session = get(id, owner);
+  if (session?.reconnecting) {
+    process.stderr.write(
+      `[SessionRegistry] Waiting for session ${id} to reconnect...\n`,
+    );
+    await session.reconnecting;
+    session = get(id, owner);
+  }
+  if (!session) return null;
+
+  // A closed page is not stale: the next tool call opens a new tab
+  if (!session.browser.isConnected()) {
+    process.stderr.write(
+      `[SessionRegistry] WARN - Session ${id} is stale, removing.\n`,
+    );
+    await remove(id);
+    return null;
+  }
+  return session;
+};
+
+/**
+ * Record a tool use on a session, resetting its idle timer
+ */
+export const touch = (id: string): void => {
+  const session = registry.get(id);
+  if (session) session.lastUsed = Date.now();
+};
+
+/**
+ * List all active sessions, or only those of the given owner
+ */
+export const list = (owner?: string): BrowserSession[] => {
+  const sessions = Array.from(registry.values());
+  return owner === undefined
+    ? sessions
+    : sessions.filter((s) => s.owner === owner);
+};
+
+/**
+ * Remove and close a session
+ */
+export const remove = async (id: string): Promise<void> => {
+  const session = registry.get(id);
+  if (!session) {
+    process.stderr.write(
+      `[SessionRegistry] Session not found for removal: ${id}\n`,
+    );
+    return;
+  }
+
+  process.stderr.write(`[SessionRegistry] Removing session: ${id}\n`);
+  // Stop a reconnect in progress from reviving the session
+  session.closing = true;
+
+  try {
+    const disconnectHandler = disconnectHandlers.get(session);
+    if (disconnectHandler) {
+      session.browser.off("disconnected", disconnectHandler);
+    }
+
+    // Close through the provider: attached CDP browsers are detached, not killed
+    await closeStagehand(
+      session.provider,
+      session.stagehand,
+      session.config,
+      session.params,
+    );
+    process.stderr.write(`[SessionRegistry] Session closed: ${id}\n`);
+  } catch (error) {
+    process.stderr.write(
+      `[SessionRegistry] Error closing session ${id}: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`,
+    );
+  } finally {
+    registry.delete(id);
+    session.releaseSlot();
+  }
+};
+
+/**
+ * Disconnect from a session's browser and unregister it, leaving the browser
+ * running so the session can be reattached later under the same ID
+ */
+export const detach = async (id: string): Promise<void> => {
+  const session = registry.get(id);
+  if (!session) return;
+
+  process.stderr.write(`[SessionRegistry] Detaching session: ${id}\n`);
+  // The disconnect is intended, so don't reconnect
+  session.closing = true;
+
+  try {
+    const disconnectHandler = disconnectHandlers.get(session);
+    if (disconnectHandler) {
+      session.browser.off("disconnected", disconnectHandler);
+    }
+    await detachStagehand(session.stagehand);
+  } catch (error) {
+    process.stderr.write(
+      `[SessionRegistry] Error detaching session ${id}: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`,
+    );
+  } finally {
+    registry.delete(id);
+    session.releaseSlot();
+  }
+};
+
+/**
+ * Remove all sessions, or only those of the given owner
+ */
+export const removeAll = async (owner?: string): Promise<void> => {
+  const sessions = list(owner);
+  process.stderr.write(
+    `[SessionRegistry] Removing all ${sessions.length} sessions${owner ? ` of ${owner}` : ""}...\n`,
+  );
+  await Promise.all(sessions.map((s) => remove(s.id)));
+  process.stderr.write(`[SessionRegistry] All sessions removed\n`);
+};
+
+/**
+ * Get registry size
+ */
+export const size = (): number => {
+  return registry.size;
+};
@@ -0,0 +1,238 @@
+import { z } from "zod";
+import type { BrowserContext, Page } from "playwright-core";
+import type { Config } from "../config.d.ts";
+import { AvailableModelSchema } from "./types/models.js";
+
+/**
+ * Browser settings that a session can override when it is created. The
+ * server-wide config uses the same schema, so an override is validated exactly
+ * like the setting it replaces.
+ */
+
+export const cookieSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+  domain: z.string(),
+  path: z.string().optional(),
+  expires: z.number().optional(),
+  httpOnly: z.boolean().optional(),
+  secure: z.boolean().optional(),
+  sameSite: z.enum(["Strict", "Lax", "None"]).optional(),
+});
+
+export const sessionSettingsSchema = z.object({
+  proxies: z
+    .boolean()
+    .optional()
+    .describe("Whether or not to use Browserbase proxies"),
+  proxyGeolocation: z
+    .object({
+      country: z
+        .string()
+        .length(2)
+        .describe("Country code in ISO 3166-1 alpha-2 format, e.g. 'DE'"),
+      state: z
+        .string()
+        .length(2)
+        .optional()
+        .describe("US state code; the country must be US"),
+      city: z.string().optional().describe("Name of the city"),
+    })
+    .optional()
+    .describe(
+      "Where the Browserbase proxy should exit. Only used when proxies are enabled",
+    ),
+  advancedStealth: z
+    .boolean()
+    .optional()
+    .describe(
+      "Use advanced stealth mode. Only available to Browserbase Scale Plan users",
+    ),
+  context: z
+    .object({
+      contextId: z.string().optional().describe("The ID of the context to use"),
+      persist: z
+        .boolean()
+        .optional()
+        .describe("Whether or not to persist the context"),
+    })
+    .optional(),
+  viewPort: z
+    .object({
+      browserWidth: z.number().optional().describe("The width of the browser"),
+      browserHeight: z
+        .number()
+        .optional()
+        .describe("The height of the browser"),
+    })
+    .optional(),
+  cookies: z
+    .array(cookieSchema)
+    .optional()
+    .describe("Cookies to inject into the Browserbase context"),
+  modelName: AvailableModelSchema.optional().describe(
+    "The model to use for Stagehand (default: google/gemini-2.0-flash)",
+  ), // Already an existing Zod Enum
+  userAgent: z
+    .string()
+    .optional()
+    .describe("User agent the browser reports instead of its own"),
+  locale: z
+    .string()
+    .optional()
+    .describe(
+      "Browser locale, e.g. 'de-DE'. Sets navigator.language and the Accept-Language header",
+    ),
+  dialogPolicy: z
+    .enum(["accept", "dismiss", "queue"])
+    .optional()
+    .describe(
+      "How to answer alert, confirm, prompt and beforeunload dialogs: accept or dismiss them as they open (default: dismiss), or queue them for browserbase_dialog",
+    ),
+});
+
+export type SessionSettings = Pick<
+  Config,
+  keyof z.infer<typeof sessionSettingsSchema>
+>;
+
+const SESSION_SETTING_KEYS = Object.keys(
+  sessionSettingsSchema.shape,
+) as (keyof SessionSettings)[];
+
+/**
+ * The session settings a config resolves to
+ */
+export function sessionSettings(config: Config): SessionSettings {
+  return Object.fromEntries(
+    SESSION_SETTING_KEYS.filter((key) => config[key] !== undefined).map(
+      (key) => [key, config[key]],
+    ),
+  );
+}
+
+/**
+ * Whether the config names a model other than the default without an API key
+ * for it
+ */
+export function lacksModelApiKey(
+  config: Pick<Config, "modelName" | "modelApiKey">,
+): boolean {
+  return (
+    !!config.modelName &&
+    config.modelName !== "google/gemini-2.0-flash" &&
+    !config.modelApiKey
+  );
+}
+
+/**
+ * The config a session with these overrides is created with. Viewport and
+ * context overrides are merged with the server's; other settings replace it.
+ */
+export function withSessionSettings(
+  config: Config,
+  overrides: SessionSettings = {},
+): Config {
+  if (
+    lacksModelApiKey({ ...config, ...sessionSettings(overrides as Config) })
+  ) {
+    throw new Error(
+      `Model ${overrides.modelName} needs a modelApiKey, and none is configured or supplied`,
+    );
+  }
+  return {
+    ...config,
+    ...sessionSettings(overrides as Config),
+    ...(overrides.viewPort && {
+      viewPort: { ...config.viewPort, ...overrides.viewPort },
+    }),
+    ...(overrides.context && {
+      context: { ...config.context, ...overrides.context },
+    }),
+  };
+}
+
+/**
+ * Describe effective session settings as one line of tool output
+ */
+export function formatSessionSettings(settings: SessionSettings): string {
+  const width = settings.viewPort?.browserWidth ?? 1024;
+  const height = settings.viewPort?.browserHeight ?? 768;
+  const geolocation = settings.proxyGeolocation;
+  const proxies = settings.proxies
+    ? `on${
+        geolocation
+          ? ` (${[geolocation.city, geolocation.state, geolocation.country]
+              .filter(Boolean)
+              .join(", ")})`
+          : ""
+      }`
+    : "off";
+
+  return [
+    `Viewport: ${width}x${height}`,
+    `Proxies: ${proxies}`,
+    `Stealth: ${settings.advancedStealth ? "advanced" : "basic"}`,
+    ...(settings.context?.contextId
+      ? [
+          `Context: ${settings.context.contextId}${settings.context.persist === false ? "" : " (persisted)"}`,
+        ]
+      : []),
+    ...(settings.cookies?.length
+      ? [`Cookies: ${settings.cookies.length}`]
+      : []),
+    `Model: ${settings.modelName ?? "google/gemini-2.0-flash"}`,
+    ...(settings.locale ? [`Locale: ${settings.locale}`] : []),
+    ...(settings.userAgent ? [`User agent: ${settings.userAgent}`] : []),
+    `Dialogs: ${settings.dialogPolicy ?? "dismiss"}`,
+  ].join(", ");
+}
+
+// Override the user agent and locale of one page through CDP
+async function overridePageIdentity(
+  context: BrowserContext,
+  page: Page,
+  { userAgent, locale }: SessionSettings,
+): Promise<void> {
+  try {
+    const client = await context.newCDPSession(page);
+    if (userAgent) {
+      await client.send("Emulation.setUserAgentOverride", {
+        userAgent,
+        acceptLanguage: locale,
+      });
+    }
+    if (locale) {
+      await client.send("Emulation.setLocaleOverride", { locale });
+    }
+  } catch (error) {
+    process.stderr.write(
+      `[SessionSettings] Error overriding user agent or locale: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`,
+    );
+  }
+}
+
+/**
+ * Apply the `userAgent` and `locale` settings to every page of a browser
+ * context, including pages opened later
+ */
+export async function applyBrowserIdentity(
+  context: BrowserContext,
+  settings: SessionSettings,
+): Promise<void> {
+  if (!settings.userAgent && !settings.locale) return;
+
+  if (settings.locale) {
+    await context.setExtraHTTPHeaders({ "Accept-Language": settings.locale });
+  }
+  await Promise.all(
+    context
+      .pages()
+      .map((page) => overridePageIdentity(context, page, settings)),
+  );
+  context.on("page", (page) => {
+    void overridePageIdentity(context, page, settings);
+  });
+}
@@ -0,0 +1,275 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { BrowserContext } from "playwright-core";
+import type { Config } from "../config.d.ts";
+import type { BrowserSession } from "./types/types.js";
+import type { Principal } from "./auth.js";
+import { activatePage, activePlaywrightPage } from "./pages.js";
+import { openScratchPage } from "./tabs.js";
+
+/**
+ * Snapshots of a session's browser storage, saved to disk or kept in memory
+ * as MCP resources, so logins can move between sessions and providers
+ * without Browserbase Contexts.
+ */
+
+type PlaywrightStorageState = Awaited<
+  ReturnType<BrowserContext["storageState"]>
+>;
+
+type StorageEntry = { name: string; value: string };
+
+export type StorageSnapshot = {
+  version: 1;
+  created: string;
+  cookies: PlaywrightStorageState["cookies"];
+  // Playwright includes IndexedDB when asked to, though its types leave it out
+  origins: (PlaywrightStorageState["origins"][number] & {
+    indexedDB?: unknown[];
+  })[];
+  // sessionStorage of the open tabs, by origin
+  sessionStorage: { origin: string; entries: StorageEntry[] }[];
+};
+
+export type SnapshotLocation = "disk" | "resource";
+
+export type SnapshotScope = {
+  config: Config;
+  owner: string; // MCP connection ID
+  principal?: Principal;
+  // Whether the connection may use the snapshot directory on disk, which
+  // unauthenticated HTTP clients would all share
+  diskAllowed: boolean;
+};
+
+export const SNAPSHOT_URI_PREFIX = "storage-state://";
+
+// Snapshots kept as MCP resources, by MCP connection and name. They hold
+// login secrets, so every connection only sees its own.
+const resourceSnapshots = new Map<string, Map<string, StorageSnapshot>>();
+
+const NO_DISK_MESSAGE =
+  "Snapshots on disk need stdio or HTTP auth, since unauthenticated HTTP clients would share them; use location 'resource' instead";
+
+/**
+ * Directory of the snapshots saved to disk. With HTTP auth, each caller gets
+ * a subdirectory so snapshots never leak between principals.
+ */
+function snapshotDir(config: Config, principal?: Principal): string {
+  const base =
+    config.storageStateDir ??
+    path.join(os.homedir(), ".browserbase-mcp", "storage-states");
+  return principal
+    ? path.join(base, principal.id.replace(/[^\w.-]/g, "_"))
+    : base;
+}
+
+/**
+ * Capture cookies, localStorage, IndexedDB and the sessionStorage of open tabs
+ */
+export async function captureStorageState(
+  session: BrowserSession,
+): Promise<StorageSnapshot> {
+  const browserContext = session.page.context();
+  const state = await browserContext.storageState({ indexedDB: true });
+
+  const sessionStorage = new Map<string, StorageEntry[]>();
+  for (const page of browserContext.pages()) {
+    const tab = await page
+      .evaluate(() => ({
+        origin: window.location.origin,
+        entries: Object.entries(window.sessionStorage).map(([name, value]) => ({
+          name,
+          value,
+        })),
+      }))
+      .catch(() => null); // pages that are closing or not scriptable
+    if (!tab || tab.origin === "null" || tab.entries.length === 0) continue;
+    if (!sessionStorage.has(tab.origin)) {
+      sessionStorage.set(tab.origin, tab.entries);
+    }
+  }
+
+  return {
+    version: 1,
+    created: new Date().toISOString(),
+    ...state,
+    sessionStorage: Array.from(sessionStorage, ([origin, entries]) => ({
+      origin,
+      entries,
+    })),
+  };
+}
+
+/**
+ * Load a snapshot into a live session
+ * @returns A summary of what was restored
+ */
+export async function restoreStorageState(
+  session: BrowserSession,
+  snapshot: StorageSnapshot,
+): Promise<string> {
+  const browserContext = session.page.context();
+  if (snapshot.cookies.length > 0) {
+    await browserContext.addCookies(snapshot.cookies);
+  }
+
+  // localStorage can only be written from a page of its origin. Visit each
+  // origin in a scratch page that is served an empty document instead of the site.
+  const localOrigins = snapshot.origins.filter(
+    (origin) => origin.localStorage.length > 0,
+  );
+  if (localOrigins.length > 0) {
+    const previous = activePlaywrightPage(session.stagehand);
+    const page = await openScratchPage(session);
+    try {
+      await page.route("**/*", (route) =>
+        route.fulfill({ contentType: "text/html", body: "<html></html>" }),
+      );
+      for (const { origin, localStorage } of localOrigins) {
+        await page.goto(origin);
+        await page.evaluate((items) => {
+          for (const { name, value } of items) {
+            window.localStorage.setItem(name, value);
+          }
+        }, localStorage);
+      }
+    } finally {
+      await page.close();
+      await activatePage(session.stagehand, previous);
+    }
+  }
+
+  // sessionStorage belongs to a tab: seed it into open and future tabs of
+  // each origin, without overwriting keys a page has already set
+  if (snapshot.sessionStorage.length > 0) {
+    const seed = (tabs: StorageSnapshot["sessionStorage"]) => {
+      const tab = tabs.find((t) => t.origin === window.location.origin);
+      for (const { name, value } of tab?.entries ?? []) {
+        if (window.sessionStorage.getItem(name) === null) {
+          window.sessionStorage.setItem(name, value);
+        }
+      }
+    };
+    await browserContext.addInitScript(seed, snapshot.sessionStorage);
+    await Promise.all(
+      browserContext
+        .pages()
+        .map((page) =>
+          page.evaluate(seed, snapshot.sessionStorage).catch(() => {}),
+        ),
+    );
+  }
+
+  const withIndexedDB = snapshot.origins.filter(
+    (origin) => origin.indexedDB?.length,
+  ).length;
+  return [
+    `Restored ${snapshot.cookies.length} cookie(s), localStorage for ${localOrigins.length} origin(s) and sessionStorage for ${snapshot.sessionStorage.length} origin(s)`,
+    ...(withIndexedDB > 0
+      ? [
+          `IndexedDB data of ${withIndexedDB} origin(s) is in the snapshot but cannot be loaded into a running browser`,
+        ]
+      : []),
+  ].join(". ");
+}
+
+/**
+ * Save a snapshot under a name, replacing any snapshot with that name
+ * @returns Where the snapshot was saved: a file path or resource URI
+ */
+export async function saveSnapshot(
+  snapshot: StorageSnapshot,
+  name: string,
+  location: SnapshotLocation,
+  { config, owner, principal, diskAllowed }: SnapshotScope,
+): Promise<string> {
+  if (location === "resource") {
+    if (!resourceSnapshots.has(owner)) resourceSnapshots.set(owner, new Map());
+    resourceSnapshots.get(owner)!.set(name, snapshot);
+    return `${SNAPSHOT_URI_PREFIX}${name}`;
+  }
+  if (!diskAllowed) throw new Error(NO_DISK_MESSAGE);
+
+  const dir = snapshotDir(config, principal);
+  const file = path.join(dir, `${name}.json`);
+  await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+  // Snapshots hold login secrets, so only the server's user may read them
+  await fs.promises.writeFile(file, JSON.stringify(snapshot, null, 2), {
+    mode: 0o600,
+  });
+  process.stderr.write(`[StorageState] Saved snapshot ${name} to ${file}\n`);
+  return file;
+}
+
+/**
+ * Load a snapshot saved under a name
+ */
+export async function loadSnapshot(
+  name: string,
+  location: SnapshotLocation,
+  { config, owner, principal, diskAllowed }: SnapshotScope,
+): Promise<StorageSnapshot> {
+  if (location === "resource") {
+    const snapshot = resourceSnapshots.get(owner)?.get(name);
+    if (!snapshot) {
+      throw new Error(`No storage state resource named ${name}`);
+    }
+    return snapshot;
+  }
+  if (!diskAllowed) throw new Error(NO_DISK_MESSAGE);
+
+  const file = path.join(snapshotDir(config, principal), `${name}.json`);
+  let text: string;
+  try {
+    text = await fs.promises.readFile(file, "utf8");
+  } catch {
+    throw new Error(
+      `No storage state snapshot named ${name} in ${path.dirname(file)}`,
+    );
+  }
+  const snapshot = JSON.parse(text) as StorageSnapshot;
+  if (snapshot.version !== 1 || !Array.isArray(snapshot.cookies)) {
+    throw new Error(`${file} is not a storage state snapshot`);
+  }
+  return { ...snapshot, sessionStorage: snapshot.sessionStorage ?? [] };
+}
+
+/**
+ * The snapshot resources of an MCP connection
+ */
+export function listSnapshotResources(owner: string) {
+  return Array.from(resourceSnapshots.get(owner)?.keys() ?? []).map((name) => ({
+    uri: `${SNAPSHOT_URI_PREFIX}${name}`,
+    mimeType: "application/json",
+    name: `Storage state: ${name}`,
+  }));
+}
+
+/**
+ * Read a snapshot resource of an MCP connection by URI
+ */
+export function readSnapshotResource(owner: string, uri: string) {
+  const name = uri.slice(SNAPSHOT_URI_PREFIX.length);
+  const snapshot = resourceSnapshots.get(owner)?.get(name);
+  if (!snapshot) {
+    throw new Error(`Resource not found: ${uri}`);
+  }
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(snapshot, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Forget the snapshot resources of a closed MCP connection
+ */
+export function dropSnapshotResources(owner: string): void {
+  resourceSnapshots.delete(owner);
+}
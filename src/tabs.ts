@@ -0,0 +1,184 @@
+import type { Page as PlaywrightPage } from "playwright-core";
+import type { Config } from "../config.d.ts";
+import type { BrowserSession, Tab } from "./types/types.js";
+import { activatePage, activePlaywrightPage } from "./pages.js";
+
+/**
+ * The tabs of each session and which one tools act on. Stagehand acts on a
+ * single page and jumps to every page that opens; the session's active tab
+ * decides instead, and Stagehand is moved onto it before each tool call.
+ */
+
+// Pages the server opens for its own work, which are not tabs
+const scratchPages = new WeakSet<PlaywrightPage>();
+// Scratch pages being opened per session; their page events arrive first
+const openingScratch = new WeakMap<BrowserSession, Promise<PlaywrightPage>>();
+
+function addTab(
+  session: BrowserSession,
+  page: PlaywrightPage,
+  openerId?: string,
+): Tab {
+  const existing = session.tabs.find((tab) => tab.page === page);
+  if (existing) return existing;
+
+  session.tabsOpened++;
+  const tab: Tab = {
+    id: `tab-${session.tabsOpened}`,
+    page,
+    openerId,
+    activated: 0,
+  };
+  session.tabs.push(tab);
+  page.once("close", () => removeTab(session, tab));
+  return tab;
+}
+
+function removeTab(session: BrowserSession, tab: Tab): void {
+  session.tabs = session.tabs.filter((t) => t !== tab);
+  if (session.activeTabId !== tab.id) return;
+
+  // Go back to the tab that opened it, or else the one active before it
+  const fallback =
+    session.tabs.find((t) => t.id === tab.openerId) ??
+    [...session.tabs].sort((a, b) => b.activated - a.activated)[0];
+  session.activeTabId = fallback?.id;
+  if (fallback) fallback.activated = Date.now();
+}
+
+function setActive(session: BrowserSession, tab: Tab): void {
+  session.activeTabId = tab.id;
+  tab.activated = Date.now();
+}
+
+/**
+ * Start tracking the tabs of a session's browser, including those a page
+ * opens later. Called again after a reconnect, which brings new pages.
+ */
+export function trackTabs(session: BrowserSession, config: Config): void {
+  const browserContext = session.page.context();
+  session.tabs = [];
+  session.activeTabId = undefined;
+
+  const active = activePlaywrightPage(session.stagehand);
+  for (const page of browserContext.pages()) {
+    if (scratchPages.has(page)) continue;
+    const tab = addTab(session, page);
+    if (page === active) setActive(session, tab);
+  }
+
+  browserContext.on("page", async (page) => {
+    await openingScratch.get(session)?.catch(() => {});
+    if (scratchPages.has(page)) return;
+    const opener = await page.opener().catch(() => null);
+    if (page.isClosed()) return;
+    const tab = addTab(
+      session,
+      page,
+      session.tabs.find((t) => t.page === opener)?.id,
+    );
+    process.stderr.write(
+      `[Tabs] Session ${session.id} opened ${tab.id}${tab.openerId ? ` from ${tab.openerId}` : ""}\n`,
+    );
+    if (config.focusPopups !== false || !session.activeTabId) {
+      setActive(session, tab);
+    }
+  });
+}
+
+/**
+ * Open a page for the server's own work, such as writing storage of an
+ * origin. It is not tracked as a tab and never becomes the active one.
+ */
+export async function openScratchPage(
+  session: BrowserSession,
+): Promise<PlaywrightPage> {
+  const opening = session.page
+    .context()
+    .newPage()
+    .then((page) => {
+      scratchPages.add(page);
+      return page;
+    });
+  openingScratch.set(session, opening);
+  try {
+    return await opening;
+  } finally {
+    if (openingScratch.get(session) === opening) openingScratch.delete(session);
+  }
+}
+
+/**
+ * Find a tab of a session by ID
+ */
+export function getTab(session: BrowserSession, tabId: string): Tab {
+  const tab = session.tabs.find((t) => t.id === tabId);
+  if (!tab) {
+    throw new Error(
+      `No tab ${tabId} in session ${session.id}. Open tabs: ${
+        session.tabs.map((t) => t.id).join(", ") || "none"
+      }`,
+    );
+  }
+  return tab;
+}
+
+/**
+ * Put Stagehand on the session's active tab, opening a tab if the last one
+ * was closed
+ */
+export async function syncActiveTab(session: BrowserSession): Promise<Tab> {
+  let tab = session.tabs.find((t) => t.id === session.activeTabId);
+  if (!tab) {
+    tab = await openTab(session);
+  } else if (activePlaywrightPage(session.stagehand) !== tab.page) {
+    await activatePage(session.stagehand, tab.page);
+  }
+  return tab;
+}
+
+/**
+ * Open a new tab and make it the active one
+ */
+export async function openTab(
+  session: BrowserSession,
+  url?: string,
+): Promise<Tab> {
+  const page = await session.page.context().newPage();
+  const tab = addTab(session, page);
+  setActive(session, tab);
+  await activatePage(session.stagehand, page);
+  if (url) {
+    await session.page.goto(url, { waitUntil: "domcontentloaded" });
+  }
+  return tab;
+}
+
+/**
+ * Make a tab the active one and bring it to the front
+ */
+export async function switchTab(
+  session: BrowserSession,
+  tabId: string,
+): Promise<Tab> {
+  const tab = getTab(session, tabId);
+  setActive(session, tab);
+  await activatePage(session.stagehand, tab.page);
+  await tab.page.bringToFront();
+  return tab;
+}
+
+/**
+ * Close a tab. When it was the active tab, its opener or the tab active
+ * before it takes over.
+ */
+export async function closeTab(
+  session: BrowserSession,
+  tabId: string,
+): Promise<Tab | undefined> {
+  const tab = getTab(session, tabId);
+  await tab.page.close();
+  // In case the close event has not arrived yet
+  removeTab(session, tab);
+  return session.tabs.find((t) => t.id === session.activeTabId);
+}
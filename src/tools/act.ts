@@ -1,9 +1,18 @@
 import { z } from "zod";
-import type { Tool, ToolSchema, ToolResult } from "./tool.js";
+import type { Stagehand } from "@browserbasehq/stagehand";
+import {
+  frameSchema,
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
 import type { Context } from "../context.js";
 import type { ToolActionResult } from "../types/types.js";
+import { describeFrame, observeFrames } from "../frames.js";
 
 const ActInputSchema = z.object({
+  sessionId: sessionIdSchema,
   action: z
     .string()
     .describe(
@@ -21,6 +30,7 @@ const ActInputSchema = z.object({
         "you can use a variable for the password. When using variables, you MUST have the variable " +
         'key in the action template. For example: {"action": "Fill in the password", "variables": {"password": "123456"}}',
     ),
+  frame: frameSchema,
 });
 
 type ActInput = z.infer<typeof ActInputSchema>;
@@ -35,13 +45,63 @@ const actSchema: ToolSchema<typeof ActInputSchema> = {
   inputSchema: ActInputSchema,
 };
 
+// Find the element an action targets within one frame. Observing all frames
+// and keeping the selected one's elements scopes the action to that frame.
+async function findInFrame(
+  stagehand: Stagehand,
+  action: string,
+  variables: Record<string, string>,
+  frame: NonNullable<ActInput["frame"]>,
+) {
+  const keys = Object.keys(variables);
+  const [element] = await observeFrames(
+    stagehand,
+    {
+      instruction: keys.length
+        ? `${action}. Use the placeholders ${keys.map((key) => `%${key}%`).join(", ")} for the values of ${keys.join(", ")}.`
+        : action,
+      returnAction: true,
+    },
+    frame,
+  );
+  if (!element?.method) {
+    throw new Error("No element for this action in the selected frame");
+  }
+  return element;
+}
+
 async function handleAct(
   context: Context,
   params: ActInput,
 ): Promise<ToolResult> {
   const action = async (): Promise<ToolActionResult> => {
     try {
-      const stagehand = await context.getStagehand();
+      const stagehand = await context.getStagehand(params.sessionId);
+
+      if (params.frame) {
+        const variables = (params.variables ?? {}) as Record<string, string>;
+        const { frame, ...element } = await findInFrame(
+          stagehand,
+          params.action,
+          variables,
+          params.frame,
+        );
+        await stagehand.page.act({
+          ...element,
+          // Fill in the variables only now, so their values never reach the model
+          arguments: element.arguments?.map((arg) =>
+            arg.replace(/%(\w+)%/g, (match, key) => variables[key] ?? match),
+          ),
+        });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Action performed in frame ${describeFrame(frame)}: ${params.action}`,
+            },
+          ],
+        };
+      }
 
       await stagehand.page.act({
         action: params.action,
@@ -0,0 +1,210 @@
+import { z } from "zod";
+import type { Tool, ToolSchema, ToolResult } from "./tool.js";
+import type { Context } from "../context.js";
+import type { ToolActionResult } from "../types/types.js";
+import {
+  createContext,
+  deleteContext,
+  describeContext,
+  listContexts,
+} from "../contexts.js";
+
+// --- Tool: Create Context ---
+const CreateContextInputSchema = z.object({
+  name: z
+    .string()
+    .optional()
+    .describe(
+      "Descriptive name for the context (e.g. 'github-login'), shown by browserbase_context_list",
+    ),
+});
+type CreateContextInput = z.infer<typeof CreateContextInputSchema>;
+
+const createContextSchema: ToolSchema<typeof CreateContextInputSchema> = {
+  name: "browserbase_context_create",
+  description:
+    "Creates a Browserbase Context, which stores cookies, local storage and other browser data across sessions. Log into a site once in a session using the context with persist enabled, then reuse the login in later sessions by passing settings.context ({ contextId, persist }) to browserbase_session_create.",
+  inputSchema: CreateContextInputSchema,
+};
+
+async function handleCreateContext(
+  context: Context,
+  params: CreateContextInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const created = await createContext(
+      context.config,
+      context.sessionOwner(),
+      params.name,
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Created context ${created.id}${created.name ? ` (${created.name})` : ""}. Attach it with settings: { context: { contextId: "${created.id}", persist: true } } in browserbase_session_create.`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const createContextTool: Tool<typeof CreateContextInputSchema> = {
+  capability: "contexts",
+  schema: createContextSchema,
+  handle: handleCreateContext,
+};
+
+// --- Tool: List Contexts ---
+const ListContextsInputSchema = z.object({});
+
+const listContextsSchema: ToolSchema<typeof ListContextsInputSchema> = {
+  name: "browserbase_context_list",
+  description:
+    "Lists the Browserbase Contexts of the project that you can use here: those you created with browserbase_context_create, the server's configured context, and those used by your live sessions. Browserbase cannot list every context of a project.",
+  inputSchema: ListContextsInputSchema,
+};
+
+async function handleListContexts(context: Context): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const contexts = listContexts(context.config, context.sessionOwner());
+    if (contexts.length === 0) {
+      return { content: [{ type: "text", text: "No known contexts" }] };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Contexts (${contexts.length}):\n${contexts
+            .map(
+              (c) =>
+                `- ${c.id}${c.name ? ` (${c.name})` : ""}${c.created ? ` - Created: ${new Date(c.created).toISOString()}` : ""}`,
+            )
+            .join("\n")}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const listContextsTool: Tool<typeof ListContextsInputSchema> = {
+  capability: "contexts",
+  schema: listContextsSchema,
+  handle: handleListContexts,
+};
+
+// --- Tool: Describe Context ---
+const DescribeContextInputSchema = z.object({
+  contextId: z.string().describe("ID of the context to describe"),
+});
+type DescribeContextInput = z.infer<typeof DescribeContextInputSchema>;
+
+const describeContextSchema: ToolSchema<typeof DescribeContextInputSchema> = {
+  name: "browserbase_context_describe",
+  description:
+    "Shows a Browserbase Context: when it was created and last updated, and which live sessions use it.",
+  inputSchema: DescribeContextInputSchema,
+};
+
+async function handleDescribeContext(
+  context: Context,
+  params: DescribeContextInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const details = await describeContext(
+      context.config,
+      params.contextId,
+      context.sessionOwner(),
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Context ${details.id}${details.name ? ` (${details.name})` : ""}`,
+            `Project: ${details.projectId}`,
+            `Created: ${details.createdAt}`,
+            `Updated: ${details.updatedAt}`,
+            `Live sessions using it: ${details.inUse}${
+              details.sessionIds.length > 0
+                ? ` (yours: ${details.sessionIds.join(", ")})`
+                : ""
+            }`,
+          ].join("\n"),
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const describeContextTool: Tool<typeof DescribeContextInputSchema> = {
+  capability: "contexts",
+  schema: describeContextSchema,
+  handle: handleDescribeContext,
+};
+
+// --- Tool: Delete Context ---
+const DeleteContextInputSchema = z.object({
+  contextId: z
+    .string()
+    .describe(
+      "ID of the context to delete. The stored logins and browser data are lost for good.",
+    ),
+});
+type DeleteContextInput = z.infer<typeof DeleteContextInputSchema>;
+
+const deleteContextSchema: ToolSchema<typeof DeleteContextInputSchema> = {
+  name: "browserbase_context_delete",
+  description:
+    "Deletes a Browserbase Context and the browser data stored in it. Close the sessions using it first.",
+  inputSchema: DeleteContextInputSchema,
+};
+
+async function handleDeleteContext(
+  context: Context,
+  params: DeleteContextInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    await deleteContext(
+      context.config,
+      params.contextId,
+      context.sessionOwner(),
+    );
+    return {
+      content: [{ type: "text", text: `Deleted context ${params.contextId}` }],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const deleteContextTool: Tool<typeof DeleteContextInputSchema> = {
+  capability: "contexts",
+  schema: deleteContextSchema,
+  handle: handleDeleteContext,
+};
+
+export default [
+  createContextTool,
+  listContextsTool,
+  describeContextTool,
+  deleteContextTool,
+];
@@ -0,0 +1,254 @@
+import { z } from "zod";
+import type { Cookie } from "playwright-core";
+import {
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
+import type { Context } from "../context.js";
+import type { ToolActionResult } from "../types/types.js";
+import { cookieSchema } from "../sessionSettings.js";
+
+// Cookie names that usually hold a login or other secret
+const SECRET_COOKIE_PATTERN =
+  /(sess|sid|auth|token|jwt|csrf|xsrf|secret|password|credential|key)/i;
+
+const REDACTED = "[REDACTED]";
+
+const cookieFilterShape = {
+  domain: z
+    .string()
+    .optional()
+    .describe(
+      "Only cookies for this domain or its subdomains, e.g. 'example.com'",
+    ),
+  name: z.string().optional().describe("Only cookies with this exact name"),
+};
+
+// Whether a cookie's domain is the given domain or one of its subdomains
+function matchesDomain(cookie: Cookie, domain: string): boolean {
+  const cookieDomain = cookie.domain.replace(/^\./, "").toLowerCase();
+  const wanted = domain.replace(/^\./, "").toLowerCase();
+  return cookieDomain === wanted || cookieDomain.endsWith(`.${wanted}`);
+}
+
+function filterCookies(
+  cookies: Cookie[],
+  filter: { domain?: string; name?: string },
+): Cookie[] {
+  return cookies.filter(
+    (cookie) =>
+      (!filter.domain || matchesDomain(cookie, filter.domain)) &&
+      (!filter.name || cookie.name === filter.name),
+  );
+}
+
+function isSecretCookie(cookie: Cookie): boolean {
+  return cookie.httpOnly || SECRET_COOKIE_PATTERN.test(cookie.name);
+}
+
+function formatCookie(cookie: Cookie, reveal: boolean): string {
+  const value = reveal || !isSecretCookie(cookie) ? cookie.value : REDACTED;
+  const flags = [
+    cookie.httpOnly && "httpOnly",
+    cookie.secure && "secure",
+    `sameSite=${cookie.sameSite}`,
+    cookie.expires > 0
+      ? `expires ${new Date(cookie.expires * 1000).toISOString()}`
+      : "session",
+  ].filter(Boolean);
+  return `- ${cookie.name}=${value} (${cookie.domain}${cookie.path}; ${flags.join(", ")})`;
+}
+
+// --- Tool: Get Cookies ---
+const GetCookiesInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  ...cookieFilterShape,
+  reveal: z
+    .boolean()
+    .optional()
+    .describe(
+      "Show the values of httpOnly and secret-looking cookies (session, auth, token...). Off by default; to move a login to another session, use browserbase_cookies_set with copyFrom instead.",
+    ),
+});
+type GetCookiesInput = z.infer<typeof GetCookiesInputSchema>;
+
+const getCookiesSchema: ToolSchema<typeof GetCookiesInputSchema> = {
+  name: "browserbase_cookies_get",
+  description:
+    "Lists the cookies of a browser session, optionally filtered by domain and name. Useful to check whether a login succeeded. Values of httpOnly and secret-looking cookies are redacted unless reveal is set.",
+  inputSchema: GetCookiesInputSchema,
+};
+
+async function handleGetCookies(
+  context: Context,
+  params: GetCookiesInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const session = await context.getSession(params.sessionId);
+    const cookies = filterCookies(
+      await session.page.context().cookies(),
+      params,
+    );
+
+    if (cookies.length === 0) {
+      return { content: [{ type: "text", text: "No matching cookies" }] };
+    }
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Cookies (${cookies.length}):\n${cookies
+            .map((cookie) => formatCookie(cookie, params.reveal ?? false))
+            .join("\n")}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const getCookiesTool: Tool<typeof GetCookiesInputSchema> = {
+  capability: "cookies",
+  schema: getCookiesSchema,
+  handle: handleGetCookies,
+};
+
+// --- Tool: Set Cookies ---
+const SetCookiesInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  cookies: z
+    .array(cookieSchema)
+    .optional()
+    .describe("Cookies to add or replace"),
+  copyFrom: z
+    .object({
+      sessionId: z.string().describe("ID of the session to copy cookies from"),
+      ...cookieFilterShape,
+    })
+    .optional()
+    .describe(
+      "Copy cookies from another session of this connection, e.g. to hand over a login. Values are never shown.",
+    ),
+});
+type SetCookiesInput = z.infer<typeof SetCookiesInputSchema>;
+
+const setCookiesSchema: ToolSchema<typeof SetCookiesInputSchema> = {
+  name: "browserbase_cookies_set",
+  description:
+    "Adds cookies to a browser session, given explicitly or copied from another session. Cookies with the same name, domain and path are replaced.",
+  inputSchema: SetCookiesInputSchema,
+};
+
+async function handleSetCookies(
+  context: Context,
+  params: SetCookiesInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    if (!params.cookies?.length && !params.copyFrom) {
+      throw new Error("Provide cookies or copyFrom");
+    }
+
+    // Playwright needs a path along with the domain
+    const cookies = (params.cookies ?? []).map(
+      (cookie) => ({ path: "/", ...cookie }) as Cookie,
+    );
+    if (params.copyFrom) {
+      const source = await context.getSession(params.copyFrom.sessionId);
+      cookies.push(
+        ...filterCookies(
+          await source.page.context().cookies(),
+          params.copyFrom,
+        ),
+      );
+    }
+
+    const session = await context.getSession(params.sessionId);
+    await session.page.context().addCookies(cookies);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Set ${cookies.length} cookie(s) on session ${session.id}${
+            params.copyFrom ? ` (copied from ${params.copyFrom.sessionId})` : ""
+          }: ${cookies.map((cookie) => cookie.name).join(", ") || "none"}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const setCookiesTool: Tool<typeof SetCookiesInputSchema> = {
+  capability: "cookies",
+  schema: setCookiesSchema,
+  handle: handleSetCookies,
+};
+
+// --- Tool: Clear Cookies ---
+const ClearCookiesInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  ...cookieFilterShape,
+});
+type ClearCookiesInput = z.infer<typeof ClearCookiesInputSchema>;
+
+const clearCookiesSchema: ToolSchema<typeof ClearCookiesInputSchema> = {
+  name: "browserbase_cookies_clear",
+  description:
+    "Deletes cookies from a browser session: all of them, or only those matching the domain and name filters. Useful to log out or start a site from a clean state.",
+  inputSchema: ClearCookiesInputSchema,
+};
+
+async function handleClearCookies(
+  context: Context,
+  params: ClearCookiesInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const session = await context.getSession(params.sessionId);
+    const browserContext = session.page.context();
+    const matching = filterCookies(await browserContext.cookies(), params);
+
+    // Clear exactly the matching cookies, so subdomains follow the same rule as the get tool
+    await Promise.all(
+      matching.map((cookie) =>
+        browserContext.clearCookies({
+          name: cookie.name,
+          domain: cookie.domain,
+          path: cookie.path,
+        }),
+      ),
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Cleared ${matching.length} cookie(s) from session ${session.id}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const clearCookiesTool: Tool<typeof ClearCookiesInputSchema> = {
+  capability: "cookies",
+  schema: clearCookiesSchema,
+  handle: handleClearCookies,
+};
+
+export default [getCookiesTool, setCookiesTool, clearCookiesTool];
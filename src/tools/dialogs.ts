@@ -0,0 +1,90 @@
+import { z } from "zod";
+import {
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
+import type { Context } from "../context.js";
+import type { ToolActionResult } from "../types/types.js";
+import { answerDialog, formatDialog } from "../dialogs.js";
+
+const DialogInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  action: z
+    .enum(["accept", "dismiss"])
+    .optional()
+    .describe(
+      "Answer a waiting dialog: accept presses OK (or Leave for beforeunload), dismiss presses Cancel. Omit to only list the waiting dialogs.",
+    ),
+  dialogId: z
+    .string()
+    .optional()
+    .describe(
+      "ID of the dialog to answer, e.g. 'dialog-2'. Defaults to the oldest waiting dialog.",
+    ),
+  promptText: z
+    .string()
+    .optional()
+    .describe("Text to enter when accepting a prompt dialog"),
+});
+type DialogInput = z.infer<typeof DialogInputSchema>;
+
+const dialogSchema: ToolSchema<typeof DialogInputSchema> = {
+  name: "browserbase_dialog",
+  description:
+    "Lists the JavaScript dialogs (alert, confirm, prompt and beforeunload) waiting in a session with their message text, and answers them. Dialogs only wait when the session's dialogPolicy is queue; a waiting dialog blocks its page until it is answered.",
+  inputSchema: DialogInputSchema,
+};
+
+async function handleDialog(
+  context: Context,
+  params: DialogInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const session = await context.getSession(params.sessionId);
+    const lines: string[] = [];
+
+    if (params.action) {
+      const answered = await answerDialog(
+        session,
+        params.dialogId,
+        params.action === "accept",
+        params.promptText,
+      );
+      lines.push(
+        `${params.action === "accept" ? "Accepted" : "Dismissed"} ${answered.id}${
+          params.action === "accept" && params.promptText !== undefined
+            ? ` with text ${JSON.stringify(params.promptText)}`
+            : ""
+        }`,
+      );
+    }
+
+    lines.push(
+      session.dialogs.length > 0
+        ? `Dialogs waiting in session ${session.id} (${session.dialogs.length}):\n${session.dialogs
+            .map(formatDialog)
+            .join("\n")}`
+        : `No dialogs waiting in session ${session.id} (policy: ${
+            session.settings.dialogPolicy ?? "dismiss"
+          })`,
+    );
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const dialogTool: Tool<typeof DialogInputSchema> = {
+  capability: "dialogs",
+  schema: dialogSchema,
+  handle: handleDialog,
+};
+
+export default dialogTool;
@@ -1,9 +1,17 @@
 import { z } from "zod";
-import type { Tool, ToolSchema, ToolResult } from "./tool.js";
+import {
+  frameSchema,
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
 import type { Context } from "../context.js";
 import type { ToolActionResult } from "../types/types.js";
+import { assertFrameTargeting, resolveFrame } from "../frames.js";
 
 const ExtractInputSchema = z.object({
+  sessionId: sessionIdSchema,
   instruction: z
     .string()
     .describe(
@@ -14,6 +22,7 @@ const ExtractInputSchema = z.object({
         "the better the extraction results will be. Avoid vague instructions like 'get everything' " +
         "or 'extract the data'. Instead, be explicit about the exact elements, text, or information you need.",
     ),
+  frame: frameSchema,
 });
 
 type ExtractInput = z.infer<typeof ExtractInputSchema>;
@@ -37,9 +46,19 @@ async function handleExtract(
 ): Promise<ToolResult> {
   const action = async (): Promise<ToolActionResult> => {
     try {
-      const stagehand = await context.getStagehand();
+      const stagehand = await context.getStagehand(params.sessionId);
 
-      const extraction = await stagehand.page.extract(params.instruction);
+      const frame =
+        params.frame && (await resolveFrame(stagehand, params.frame)).frame;
+      if (frame) assertFrameTargeting(stagehand, frame);
+      // Scoped to the content of the frame's iframe element
+      const extraction = frame?.xpath
+        ? await stagehand.page.extract({
+            instruction: params.instruction,
+            selector: `xpath=${frame.xpath}`,
+            iframes: true,
+          })
+        : await stagehand.page.extract(params.instruction);
 
       return {
         content: [
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import {
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
+import type { Context } from "../context.js";
+import type { ToolActionResult } from "../types/types.js";
+import { describeFrame, listFrames } from "../frames.js";
+import { activePlaywrightPage } from "../pages.js";
+
+const ListFramesInputSchema = z.object({
+  sessionId: sessionIdSchema,
+});
+type ListFramesInput = z.infer<typeof ListFramesInputSchema>;
+
+const listFramesSchema: ToolSchema<typeof ListFramesInputSchema> = {
+  name: "browserbase_frames_list",
+  description:
+    "Lists the frames of the active tab: the page itself as #0, then its iframes with their index, name and URL, nested under their parent. When the server has frameTargeting on, pass one as frame (by index, name or URL) to act, observe or extract to work inside it, e.g. for payment forms, embedded editors or consent banners.",
+  inputSchema: ListFramesInputSchema,
+};
+
+async function handleListFrames(
+  context: Context,
+  params: ListFramesInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const stagehand = await context.getStagehand(params.sessionId);
+    const frames = await listFrames(activePlaywrightPage(stagehand));
+
+    const depth = (index: number): number => {
+      const parent = frames[index].parentIndex;
+      return parent === undefined ? 0 : depth(parent) + 1;
+    };
+    const lines = frames.map(
+      (frame) => `${"  ".repeat(depth(frame.index))}- ${describeFrame(frame)}`,
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Frames (${frames.length}):\n${lines.join("\n")}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const listFramesTool: Tool<typeof ListFramesInputSchema> = {
+  capability: "core",
+  schema: listFramesSchema,
+  handle: handleListFrames,
+};
+
+export default listFramesTool;
@@ -1,9 +1,18 @@
+import type { Config } from "../../config.d.ts";
+import type { MCPToolsArray } from "../types/types.js";
 import navigateTool from "./navigate.js";
 import actTool from "./act.js";
 import extractTool from "./extract.js";
 import observeTool from "./observe.js";
 import screenshotTool from "./screenshot.js";
+import listFramesTool from "./frames.js";
 import sessionTools from "./session.js";
+import contextTools from "./contexts.js";
+import cookieTools from "./cookies.js";
+import storageTools from "./storageState.js";
+import tabTools from "./tabs.js";
+import dialogTool from "./dialogs.js";
+import uploadTool from "./upload.js";
 import {
   createSessionTool,
   listSessionsTool,
@@ -20,9 +29,16 @@ export { default as actTool } from "./act.js";
 export { default as extractTool } from "./extract.js";
 export { default as observeTool } from "./observe.js";
 export { default as screenshotTool } from "./screenshot.js";
+export { default as listFramesTool } from "./frames.js";
 export { default as sessionTools } from "./session.js";
+export { default as contextTools } from "./contexts.js";
+export { default as cookieTools } from "./cookies.js";
+export { default as storageTools } from "./storageState.js";
+export { default as tabTools } from "./tabs.js";
+export { default as dialogTool } from "./dialogs.js";
+export { default as uploadTool } from "./upload.js";
 
-// Multi-session tools array
+// Legacy multi_* aliases, only exposed with legacyMultiSessionTools
 export const multiSessionTools = [
   createSessionTool,
   listSessionsTool,
@@ -35,13 +51,59 @@ export const multiSessionTools = [
 
 // Export all tools as array
 export const TOOLS = [
-  ...multiSessionTools,
   ...sessionTools,
+  ...contextTools,
+  ...cookieTools,
+  ...storageTools,
+  ...tabTools,
+  dialogTool,
   navigateTool,
   actTool,
   extractTool,
   observeTool,
+  listFramesTool,
+  uploadTool,
   screenshotTool,
+  ...multiSessionTools,
 ];
 
 export const sessionManagementTools = sessionTools;
+
+// Convert a tool name pattern with * and ? wildcards to a RegExp
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${escaped}$`);
+}
+
+function matchesAny(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(name));
+}
+
+/**
+ * Get the tools enabled by the capability, allow and deny settings in the config.
+ * The legacy multi_* tools also need `legacyMultiSessionTools`.
+ */
+export function filterTools(
+  tools: MCPToolsArray,
+  config: Config,
+): MCPToolsArray {
+  const { capabilities, tools: toolsConfig } = config;
+
+  return tools.filter((tool) => {
+    const name = tool.schema.name;
+    if (tool.capability === "multi-session" && !config.legacyMultiSessionTools)
+      return false;
+    if (capabilities && !capabilities.includes(tool.capability)) return false;
+    if (toolsConfig?.allow && !matchesAny(name, toolsConfig.allow))
+      return false;
+    if (toolsConfig?.deny && matchesAny(name, toolsConfig.deny)) return false;
+    return true;
+  });
+}
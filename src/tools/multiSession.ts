@@ -1,22 +1,38 @@
 import { z } from "zod";
-import { Browserbase } from "@browserbasehq/sdk";
 import {
   defineTool,
   type Tool,
   type ToolResult,
   type InputType,
 } from "./tool.js";
-import * as stagehandStore from "../stagehandStore.js";
+import * as sessionRegistry from "../sessionRegistry.js";
 import { CreateSessionParams } from "../types/types.js";
 import type { Context } from "../context.js";
+import { formatLiveView, getProvider } from "../providers/index.js";
+import {
+  formatSessionSettings,
+  sessionSettingsSchema,
+  withSessionSettings,
+  type SessionSettings,
+} from "../sessionSettings.js";
+import {
+  CREATE_FAILURE_HINTS,
+  listSessionsTool as coreListSessionsTool,
+  closeSessionTool as coreCloseSessionTool,
+} from "./session.js";
 import navigateTool from "./navigate.js";
 import actTool from "./act.js";
 import extractTool from "./extract.js";
 import observeTool from "./observe.js";
 
 /**
- * Creates a session-aware version of an existing tool
- * This wraps the original tool's handler to work with a specific session
+ * The multi_* tools from before every tool accepted a `sessionId`. They are
+ * kept as aliases of the core tools for existing clients and are only exposed
+ * with the `legacyMultiSessionTools` option.
+ */
+
+/**
+ * Creates the legacy `multi_*_session` alias of a core tool, with a required sessionId
  */
 function createMultiSessionAwareTool<TInput extends InputType>(
   originalTool: Tool<TInput>,
@@ -27,15 +43,13 @@ function createMultiSessionAwareTool<TInput extends InputType>(
 ): Tool<InputType> {
   const { namePrefix = "", nameSuffix = "_session" } = options;
 
-  // Create new input schema that includes sessionId
+  // The core tools already take an optional sessionId; make it required
   const originalSchema = originalTool.schema.inputSchema;
   let newInputSchema: z.ZodSchema;
 
   if (originalSchema instanceof z.ZodObject) {
-    // If it's a ZodObject, we can spread its shape
-    newInputSchema = z.object({
+    newInputSchema = originalSchema.extend({
       sessionId: z.string().describe("The session ID to use"),
-      ...originalSchema.shape,
     });
   } else {
     // For other schema types, create an intersection
@@ -46,41 +60,22 @@ function createMultiSessionAwareTool<TInput extends InputType>(
   }
 
   return defineTool({
-    capability: originalTool.capability,
+    capability: "multi-session",
     schema: {
       name: `${namePrefix}${originalTool.schema.name}${nameSuffix}`,
       description: `${originalTool.schema.description} (for a specific session)`,
       inputSchema: newInputSchema,
     },
-    handle: async (
+    handle: (
       context: Context,
       params: z.infer<typeof newInputSchema>,
-    ): Promise<ToolResult> => {
-      const { sessionId, ...originalParams } = params;
-
-      // Get the session
-      const session = stagehandStore.get(sessionId);
-      if (!session) {
-        throw new Error(`Session ${sessionId} not found`);
-      }
-
-      // Create a temporary context that points to the specific session
-      const sessionContext = Object.create(context);
-      sessionContext.currentSessionId =
-        session.metadata?.bbSessionId || sessionId;
-      sessionContext.getStagehand = async () => session.stagehand;
-      sessionContext.getActivePage = async () => session.page;
-      sessionContext.getActiveBrowser = async () => session.browser;
-
-      // Call the original tool's handler with the session-specific context
-      return originalTool.handle(sessionContext, originalParams);
-    },
+    ): Promise<ToolResult> => originalTool.handle(context, params),
   });
 }
 
-// Create session tool
+// Create session tool. Unlike browserbase_session_create, it leaves the active session alone.
 export const createSessionTool = defineTool({
-  capability: "create_session",
+  capability: "multi-session",
   schema: {
     name: "multi_browserbase_stagehand_session_create",
     description:
@@ -98,38 +93,57 @@ export const createSessionTool = defineTool({
         .describe(
           "Resume an existing Browserbase session by providing its session ID. Use this to continue work in a previously created browser session that may have been paused or disconnected.",
         ),
+      cdpEndpoint: z
+        .string()
+        .optional()
+        .describe(
+          "Chrome DevTools Protocol endpoint (e.g. 'http://localhost:9222') of an already-running browser to attach this session to. Closing the session detaches from that browser without closing it. Its host must be in the server's cdpEndpointAllowlist.",
+        ),
+      settings: sessionSettingsSchema
+        .optional()
+        .describe(
+          "Settings for this session that override the server's: viewport, proxies and proxy geolocation, advanced stealth, context, cookies, model, user agent and locale",
+        ),
     }),
   },
   handle: async (
     context: Context,
-    { name, browserbaseSessionID },
+    { name, browserbaseSessionID, cdpEndpoint, settings },
   ): Promise<ToolResult> => {
     try {
       const params: CreateSessionParams = {
         browserbaseSessionID,
-        meta: name ? { name } : undefined,
+        ...(cdpEndpoint && { provider: "cdp", cdpUrl: cdpEndpoint }),
       };
 
-      const session = await stagehandStore.create(context.config, params);
-
-      const bbSessionId = session.metadata?.bbSessionId;
-      if (!bbSessionId) {
-        throw new Error("No Browserbase session ID available");
-      }
+      const session = await sessionRegistry.create(
+        withSessionSettings(
+          context.config,
+          settings as SessionSettings | undefined,
+        ),
+        params,
+        { ...context.sessionOwner(), name },
+      );
 
-      // Get the debug URL using Browserbase SDK
-      const bb = new Browserbase({
-        apiKey: context.config.browserbaseApiKey,
-      });
-      const debugUrl = (await bb.sessions.debug(bbSessionId))
-        .debuggerFullscreenUrl;
+      const bbSessionId = session.providerSessionId;
+      const liveView = await getProvider(
+        context.config,
+        session.provider,
+      ).getLiveView(context.config, session.stagehand);
 
       return {
         action: async () => ({
           content: [
             {
               type: "text",
-              text: `Created session ${session.id}${name ? ` (${name})` : ""}\nBrowserbase session: ${bbSessionId}\nBrowserbase Live Session View URL: https://www.browserbase.com/sessions/${bbSessionId}\nBrowserbase Live Debugger URL: ${debugUrl}`,
+              text: [
+                `Created session ${session.id}${name ? ` (${name})` : ""}`,
+                bbSessionId
+                  ? `Browserbase session: ${bbSessionId}`
+                  : `Provider: ${session.provider}`,
+                `Settings: ${formatSessionSettings(session.settings)}`,
+                ...formatLiveView(liveView),
+              ].join("\n"),
             },
           ],
         }),
@@ -139,7 +153,7 @@ export const createSessionTool = defineTool({
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       throw new Error(
-        `Failed to create browser session: ${errorMessage}. Please check your Browserbase credentials and try again.`,
+        `Failed to create browser session: ${errorMessage}. Please check your ${CREATE_FAILURE_HINTS[getProvider(context.config, cdpEndpoint ? "cdp" : undefined).name]} and try again.`,
       );
     }
   },
@@ -147,64 +161,22 @@ export const createSessionTool = defineTool({
 
 // List sessions tool
 export const listSessionsTool = defineTool({
-  capability: "list_sessions",
+  capability: "multi-session",
   schema: {
     name: "multi_browserbase_stagehand_session_list",
-    description:
-      "ONLY WORKS WITH MULTI-SESSION TOOLS! Track all parallel sessions: Critical tool for multi-session management! Shows all active browser sessions with their IDs, names, ages, and Browserbase session IDs. Use this frequently to monitor your parallel automation workflows, verify sessions are running, and get session IDs for session-specific tools. Essential for debugging and resource management in complex multi-browser scenarios.",
-    inputSchema: z.object({}),
-  },
-  handle: async (): Promise<ToolResult> => {
-    const sessions = stagehandStore.list();
-
-    if (sessions.length === 0) {
-      return {
-        action: async () => ({
-          content: [
-            {
-              type: "text",
-              text: "No active sessions",
-            },
-          ],
-        }),
-        waitForNetwork: false,
-      };
-    }
-
-    const sessionInfo = sessions.map((s) => ({
-      id: s.id,
-      name: s.metadata?.name,
-      browserbaseSessionId: s.metadata?.bbSessionId,
-      created: new Date(s.created).toISOString(),
-      age: Math.floor((Date.now() - s.created) / 1000),
-    }));
-
-    return {
-      action: async () => ({
-        content: [
-          {
-            type: "text",
-            text: `Active sessions (${sessions.length}):\n${sessionInfo
-              .map(
-                (s) =>
-                  `- ${s.id}${s.name ? ` (${s.name})` : ""} - BB: ${s.browserbaseSessionId} - Age: ${s.age}s`,
-              )
-              .join("\n")}`,
-          },
-        ],
-      }),
-      waitForNetwork: false,
-    };
+    description: coreListSessionsTool.schema.description,
+    inputSchema: coreListSessionsTool.schema.inputSchema,
   },
+  handle: coreListSessionsTool.handle,
 });
 
 // Close session tool
 export const closeSessionTool = defineTool({
-  capability: "close_session",
+  capability: "multi-session",
   schema: {
     name: "multi_browserbase_stagehand_session_close",
     description:
-      "Cleanup parallel session for multi-session workflows. Properly terminates a browser session, ends the Browserbase session, and frees cloud resources. Always use this when finished with a session to avoid resource waste and billing charges. Critical for responsible multi-session automation - each unclosed session continues consuming resources!",
+      "Cleanup parallel session for multi-session workflows. Properly terminates a browser session, ends the Browserbase session, and frees cloud resources. Always use this when finished with a session to avoid resource waste and billing charges.",
     inputSchema: z.object({
       sessionId: z
         .string()
@@ -213,29 +185,10 @@ export const closeSessionTool = defineTool({
         ),
     }),
   },
-  handle: async (_context: Context, { sessionId }): Promise<ToolResult> => {
-    const session = stagehandStore.get(sessionId);
-    if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
-    }
-
-    await stagehandStore.remove(sessionId);
-
-    return {
-      action: async () => ({
-        content: [
-          {
-            type: "text",
-            text: `Closed session ${sessionId}`,
-          },
-        ],
-      }),
-      waitForNetwork: false,
-    };
-  },
+  handle: coreCloseSessionTool.handle,
 });
 
-// Create multi-session-aware versions of the core tools
+// Legacy aliases of the core tools
 export const navigateWithSessionTool = createMultiSessionAwareTool(
   navigateTool,
   {
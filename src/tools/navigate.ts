@@ -1,10 +1,16 @@
 import { z } from "zod";
-import { Browserbase } from "@browserbasehq/sdk";
-import type { Tool, ToolSchema, ToolResult } from "./tool.js";
+import {
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
 import type { Context } from "../context.js";
 import type { ToolActionResult } from "../types/types.js";
+import { formatLiveView } from "../providers/index.js";
 
 const NavigateInputSchema = z.object({
+  sessionId: sessionIdSchema,
   url: z.string().describe("The URL to navigate to"),
 });
 
@@ -23,25 +29,14 @@ async function handleNavigate(
 ): Promise<ToolResult> {
   const action = async (): Promise<ToolActionResult> => {
     try {
-      const stagehand = await context.getStagehand();
-      const page = await context.getActivePage();
+      const page = await context.getActivePage(params.sessionId);
 
       if (!page) {
         throw new Error("No active page available");
       }
       await page.goto(params.url, { waitUntil: "domcontentloaded" });
 
-      const sessionId = stagehand.browserbaseSessionID;
-      if (!sessionId) {
-        throw new Error("No Browserbase session ID available");
-      }
-
-      // Get the debug URL using Browserbase SDK
-      const bb = new Browserbase({
-        apiKey: context.config.browserbaseApiKey,
-      });
-      const debugUrl = (await bb.sessions.debug(sessionId))
-        .debuggerFullscreenUrl;
+      const liveView = await context.getLiveView(params.sessionId);
 
       return {
         content: [
@@ -49,14 +44,10 @@ async function handleNavigate(
             type: "text",
             text: `Navigated to: ${params.url}`,
           },
-          {
-            type: "text",
-            text: `View the live session here: https://www.browserbase.com/sessions/${sessionId}`,
-          },
-          {
-            type: "text",
-            text: `Browserbase Live Debugger URL: ${debugUrl}`,
-          },
+          ...formatLiveView(liveView).map((text) => ({
+            type: "text" as const,
+            text,
+          })),
         ],
       };
     } catch (error) {
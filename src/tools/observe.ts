@@ -1,9 +1,17 @@
 import { z } from "zod";
-import type { Tool, ToolSchema, ToolResult } from "./tool.js";
+import {
+  frameSchema,
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
 import type { Context } from "../context.js";
 import type { ToolActionResult } from "../types/types.js";
+import { describeFrame, observeFrames } from "../frames.js";
 
 const ObserveInputSchema = z.object({
+  sessionId: sessionIdSchema,
   instruction: z
     .string()
     .describe(
@@ -23,6 +31,7 @@ const ObserveInputSchema = z.object({
       "Whether to return the action to perform on the element. If true, the action will be returned as a string. " +
         "If false, the action will not be returned.",
     ),
+  frame: frameSchema,
 });
 
 type ObserveInput = z.infer<typeof ObserveInputSchema>;
@@ -37,7 +46,8 @@ const observeSchema: ToolSchema<typeof ObserveInputSchema> = {
     "use the extract tool instead for that purpose. The observe tool returns detailed information about the identified " +
     "elements including their properties, location, and interaction capabilities. This information can then be used " +
     "to craft precise actions. The more specific your observation instruction, the more accurate the element identification " +
-    "will be. Think of this as your 'eyes' on the page to find exactly what you need to interact with.",
+    "will be. Think of this as your 'eyes' on the page to find exactly what you need to interact with. " +
+    "When the server has frameTargeting on, elements inside iframes are included, and every result names the frame it is in.",
   inputSchema: ObserveInputSchema,
 };
 
@@ -47,12 +57,18 @@ async function handleObserve(
 ): Promise<ToolResult> {
   const action = async (): Promise<ToolActionResult> => {
     try {
-      const stagehand = await context.getStagehand();
+      const stagehand = await context.getStagehand(params.sessionId);
 
-      const observations = await stagehand.page.observe({
-        instruction: params.instruction,
-        returnAction: params.returnAction,
-      });
+      const observations = (
+        await observeFrames(
+          stagehand,
+          {
+            instruction: params.instruction,
+            returnAction: params.returnAction,
+          },
+          params.frame,
+        )
+      ).map((element) => ({ ...element, frame: describeFrame(element.frame) }));
 
       return {
         content: [
@@ -1,10 +1,16 @@
 import { z } from "zod";
-import type { Tool, ToolSchema, ToolResult } from "./tool.js";
+import {
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
 import type { Context } from "../context.js";
 import type { ToolActionResult } from "../types/types.js";
-import { screenshots } from "../mcp/resources.js";
+import { saveScreenshot } from "../mcp/resources.js";
 
 const ScreenshotInputSchema = z.object({
+  sessionId: sessionIdSchema,
   name: z.string().optional().describe("The name of the screenshot"),
 });
 
@@ -23,7 +29,7 @@ async function handleScreenshot(
 ): Promise<ToolResult> {
   const action = async (): Promise<ToolActionResult> => {
     try {
-      const page = await context.getActivePage();
+      const page = await context.getActivePage(params.sessionId);
       if (!page) {
         throw new Error("No active page available");
       }
@@ -38,9 +44,8 @@ async function handleScreenshot(
         ? `screenshot-${params.name}-${new Date()
             .toISOString()
             .replace(/:/g, "-")}`
-        : `screenshot-${new Date().toISOString().replace(/:/g, "-")}` +
-          context.config.browserbaseProjectId;
-      screenshots.set(name, screenshotBase64);
+        : `screenshot-${new Date().toISOString().replace(/:/g, "-")}`;
+      saveScreenshot(context.id, name, screenshotBase64);
 
       // Notify the client that the resources changed
       const serverInstance = context.getServer();
@@ -77,7 +82,7 @@ async function handleScreenshot(
 }
 
 const screenshotTool: Tool<typeof ScreenshotInputSchema> = {
-  capability: "core",
+  capability: "vision",
   schema: screenshotSchema,
   handle: handleScreenshot,
 };
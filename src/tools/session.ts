@@ -2,16 +2,28 @@ import { z } from "zod";
 import type { Tool, ToolSchema, ToolResult } from "./tool.js";
 import type { Context } from "../context.js";
 import type { ToolActionResult } from "../types/types.js";
-import { Browserbase } from "@browserbasehq/sdk";
-
-// Import SessionManager functions
 import {
-  createNewBrowserSession,
-  defaultSessionId,
-  ensureDefaultSessionInternal,
-  cleanupSession,
-  getSession,
-} from "../sessionManager.js";
+  formatLiveView,
+  getProvider,
+  type ProviderName,
+} from "../providers/index.js";
+import * as sessionRegistry from "../sessionRegistry.js";
+import { browserSessionLifetime, expiresAt } from "../reaper.js";
+import { quotaStatus } from "../quota.js";
+import { captureStorageState, restoreStorageState } from "../storageState.js";
+import {
+  detachSession,
+  listDetached,
+  reattachSession,
+  type DetachedSession,
+} from "../persistedSessions.js";
+import {
+  formatSessionSettings,
+  sessionSettingsSchema,
+  withSessionSettings,
+  type SessionSettings,
+} from "../sessionSettings.js";
+
 import type { BrowserSession } from "../types/types.js";
 
 // --- Tool: Create Session ---
@@ -21,7 +33,30 @@ const CreateSessionInputSchema = z.object({
     .string()
     .optional()
     .describe(
-      "Optional session ID to use/reuse. If not provided or invalid, a new session is created.",
+      "Optional session ID to switch to: an ID returned by an earlier create call, or a Browserbase session ID to resume. If not provided, the current session is reused or a new one is created.",
+    ),
+  cdpEndpoint: z
+    .string()
+    .optional()
+    .describe(
+      "Optional Chrome DevTools Protocol endpoint (e.g. 'http://localhost:9222') of an already-running browser to attach to instead of starting a new one. Closing the session detaches from that browser without closing it. Its host must be in the server's cdpEndpointAllowlist.",
+    ),
+  newSession: z
+    .boolean()
+    .optional()
+    .describe(
+      "Start an additional browser session even if one is already active, e.g. for parallel scraping, A/B testing or multiple accounts. Each session has independent cookies and state; pass its ID as sessionId to the other tools.",
+    ),
+  name: z
+    .string()
+    .optional()
+    .describe(
+      "Descriptive name for a newly created session (e.g. 'amazon-scraper'), shown by browserbase_session_list",
+    ),
+  settings: sessionSettingsSchema
+    .optional()
+    .describe(
+      "Settings for this session that override the server's, e.g. a mobile viewport with a German proxy: { viewPort: { browserWidth: 390, browserHeight: 844 }, proxies: true, proxyGeolocation: { country: 'DE' }, locale: 'de-DE' }. To reuse a login, pass a context from browserbase_context_create as context: { contextId, persist: true }. Always starts a new session.",
     ),
 });
 type CreateSessionInput = z.infer<typeof CreateSessionInputSchema>;
@@ -29,77 +64,93 @@ type CreateSessionInput = z.infer<typeof CreateSessionInputSchema>;
 const createSessionSchema: ToolSchema<typeof CreateSessionInputSchema> = {
   name: "browserbase_session_create",
   description:
-    "Create or reuse a single cloud browser session using Browserbase with fully initialized Stagehand. WARNING: This tool is for SINGLE browser workflows only. If you need multiple browser sessions running simultaneously (parallel scraping, A/B testing, multiple accounts), use 'multi_browserbase_stagehand_session_create' instead. This creates one browser session with all configuration flags (proxies, stealth, viewport, cookies, etc.) and initializes Stagehand to work with that session. Updates the active session.",
+    "Create or reuse a browser session (a Browserbase cloud browser, or a local Chromium when the server runs with the local provider) with fully initialized Stagehand. This creates a browser session with all configuration flags (proxies, stealth, viewport, cookies, etc.) and makes it the active session, which tools use when called without a sessionId. Set newSession to run several sessions in parallel and address each one by its ID.",
   inputSchema: CreateSessionInputSchema,
 };
 
-// Handle function for CreateSession using SessionManager
+// What to check when session creation fails, per provider
+export const CREATE_FAILURE_HINTS: Record<ProviderName, string> = {
+  browserbase: "Browserbase credentials",
+  local: "local Chromium installation",
+  cdp: "CDP endpoint",
+};
+
+// Handle function for CreateSession using the session registry
 async function handleCreateSession(
   context: Context,
   params: CreateSessionInput,
 ): Promise<ToolResult> {
   const action = async (): Promise<ToolActionResult> => {
     try {
-      const config = context.config; // Get config from context
-      let targetSessionId: string;
+      // The config this session is created with, with its overrides applied
+      const config = withSessionSettings(
+        context.config,
+        params.settings as SessionSettings | undefined,
+      );
+      let session: BrowserSession;
 
-      if (params.sessionId) {
-        const projectId = config.browserbaseProjectId || "";
-        targetSessionId = `${params.sessionId}_${projectId}`;
-        process.stderr.write(
-          `[tool.createSession] Attempting to create/assign session with specified ID: ${targetSessionId}`,
+      const existing = params.sessionId
+        ? ((await sessionRegistry.getConnected(params.sessionId, context.id)) ??
+          (await context.reattachKept(params.sessionId)))
+        : null;
+      if (existing) {
+        if (params.settings) {
+          throw new Error(
+            `Session ${existing.id} already exists; settings can only be applied to a new session`,
+          );
+        }
+        // Switch to a session this connection already has
+        session = existing;
+      } else if (params.cdpEndpoint) {
+        // Attach to the given browser rather than resuming a Browserbase session
+        session = await sessionRegistry.create(
+          config,
+          { provider: "cdp", cdpUrl: params.cdpEndpoint },
+          { ...context.sessionOwner(), name: params.name },
         );
-      } else {
-        targetSessionId = defaultSessionId;
-      }
-
-      let session: BrowserSession;
-      if (targetSessionId === defaultSessionId) {
-        session = await ensureDefaultSessionInternal(config);
-      } else {
+      } else if (params.sessionId) {
         // When user provides a sessionId, we want to resume that Browserbase session
-        session = await createNewBrowserSession(
-          targetSessionId,
+        process.stderr.write(
+          `[tool.createSession] Resuming Browserbase session: ${params.sessionId}\n`,
+        );
+        session = await sessionRegistry.create(
           config,
-          params.sessionId,
+          { browserbaseSessionID: params.sessionId },
+          { ...context.sessionOwner(), name: params.name },
         );
-      }
-
-      if (
-        !session ||
-        !session.browser ||
-        !session.page ||
-        !session.sessionId ||
-        !session.stagehand
-      ) {
-        throw new Error(
-          `SessionManager failed to return a valid session object with actualSessionId for ID: ${targetSessionId}`,
+      } else if (params.newSession || params.settings) {
+        session = await sessionRegistry.create(
+          config,
+          {},
+          { ...context.sessionOwner(), name: params.name },
         );
+      } else {
+        session = await context.getSession();
       }
 
-      context.currentSessionId = targetSessionId;
-      const bb = new Browserbase({
-        apiKey: config.browserbaseApiKey,
-      });
-      const debugUrl = (await bb.sessions.debug(session.sessionId))
-        .debuggerFullscreenUrl;
-      process.stderr.write(
-        `[tool.connected] Successfully connected to Browserbase session. Internal ID: ${targetSessionId}, Actual ID: ${session.sessionId}`,
+      context.currentSessionId = session.id;
+      const liveView = await getProvider(config, session.provider).getLiveView(
+        config,
+        session.stagehand,
       );
-
       process.stderr.write(
-        `[SessionManager] Browserbase Live Session View URL: https://www.browserbase.com/sessions/${session.sessionId}`,
+        `[tool.connected] Successfully connected to ${session.provider} session. Internal ID: ${session.id}${session.providerSessionId ? `, Actual ID: ${session.providerSessionId}` : ""}\n`,
       );
 
-      process.stderr.write(
-        `[SessionManager] Browserbase Live Debugger URL: ${debugUrl}`,
-      );
+      const liveViewLines = formatLiveView(liveView);
+      for (const line of liveViewLines) {
+        process.stderr.write(`[tool.createSession] ${line}\n`);
+      }
 
       return {
         content: [
           {
             type: "text",
-            text: `Browserbase Live Session View URL: https://www.browserbase.com/sessions/${session.sessionId}\nBrowserbase Live Debugger URL: ${debugUrl}`,
+            text: [
+              `Browser session ready (${session.provider}). Internal ID: ${session.id}${session.name ? ` (${session.name})` : ""}`,
+              `Settings: ${formatSessionSettings(session.settings)}`,
+              ...liveViewLines,
+            ].join("\n"),
           },
         ],
       };
@@ -107,10 +158,16 @@ async function handleCreateSession(
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       process.stderr.write(
-        `[tool.createSession] Action failed: ${errorMessage}`,
+        `[tool.createSession] Action failed: ${errorMessage}\n`,
       );
       // Re-throw to be caught by Context.run's error handling for actions
-      throw new Error(`Failed to create Browserbase session: ${errorMessage}`);
+      const provider = getProvider(
+        context.config,
+        params.cdpEndpoint ? "cdp" : undefined,
+      ).name;
+      throw new Error(
+        `Failed to create browser session: ${errorMessage}. Please check your ${CREATE_FAILURE_HINTS[provider]} and try again.`,
+      );
     }
   };
 
@@ -123,103 +180,395 @@ async function handleCreateSession(
 
 // Define tool using handle
 const createSessionTool: Tool<typeof CreateSessionInputSchema> = {
-  capability: "core", // Add capability
+  capability: "sessions",
   schema: createSessionSchema,
   handle: handleCreateSession,
 };
 
-// --- Tool: Close Session ---
-const CloseSessionInputSchema = z.object({});
+// --- Tool: Fork Session ---
+const ForkSessionInputSchema = z.object({
+  sessionId: z
+    .string()
+    .optional()
+    .describe(
+      "ID of the session to fork, from browserbase_session_list. Defaults to the active session.",
+    ),
+  name: z
+    .string()
+    .optional()
+    .describe(
+      "Descriptive name for the new session (e.g. 'checkout-express'), shown by browserbase_session_list",
+    ),
+  activate: z
+    .boolean()
+    .optional()
+    .describe(
+      "Make the new session the active one. By default the active session stays as it is.",
+    ),
+});
+type ForkSessionInput = z.infer<typeof ForkSessionInputSchema>;
 
-const closeSessionSchema: ToolSchema<typeof CloseSessionInputSchema> = {
-  name: "browserbase_session_close",
+const forkSessionSchema: ToolSchema<typeof ForkSessionInputSchema> = {
+  name: "browserbase_session_fork",
   description:
-    "Closes the current Browserbase session by properly shutting down the Stagehand instance, which handles browser cleanup and terminates the session recording.",
-  inputSchema: CloseSessionInputSchema,
+    "Creates a new browser session initialized from an existing one: same settings, cookies, localStorage and sessionStorage, opened on the same URL. Use it to explore branches of a flow in parallel (e.g. two checkout options from the same cart) without repeating the login and navigation. Returns the IDs of both sessions; pass them as sessionId to the other tools.",
+  inputSchema: ForkSessionInputSchema,
 };
 
-async function handleCloseSession(context: Context): Promise<ToolResult> {
+async function handleForkSession(
+  context: Context,
+  params: ForkSessionInput,
+): Promise<ToolResult> {
   const action = async (): Promise<ToolActionResult> => {
-    // Store the current session ID before it's potentially changed.
-    const previousSessionId = context.currentSessionId;
-    let stagehandClosedSuccessfully = false;
-    let stagehandCloseErrorMessage = "";
+    if (!params.sessionId && !context.currentSessionId) {
+      throw new Error("No active session to fork; pass a sessionId");
+    }
+    const source = await context.getSession(params.sessionId);
+    if (source.provider === "cdp") {
+      // A fork would attach to the very same browser
+      throw new Error(
+        `Session ${source.id} is attached over CDP and cannot be forked`,
+      );
+    }
+
+    const snapshot = await captureStorageState(source);
+    const url = source.stagehand.page.url();
+
+    // Only one session should write back to a Browserbase Context
+    const persists =
+      source.settings.context?.contextId &&
+      source.settings.context.persist !== false;
+    const settings: SessionSettings = persists
+      ? {
+          ...source.settings,
+          context: { ...source.settings.context, persist: false },
+        }
+      : source.settings;
+
+    const fork = await sessionRegistry.create(
+      withSessionSettings(context.config, settings),
+      // Drop the provider session ID, which would resume the source session
+      { ...source.params, browserbaseSessionID: undefined },
+      { ...context.sessionOwner(), name: params.name },
+    );
 
-    // Step 1: Attempt to get the session and close Stagehand
-    let browserbaseSessionId: string | undefined;
     try {
-      const session = await getSession(
-        previousSessionId,
-        context.config,
-        false,
+      const restored = await restoreStorageState(fork, snapshot);
+      if (url && url !== "about:blank") {
+        await fork.stagehand.page.goto(url, { waitUntil: "domcontentloaded" });
+      }
+      if (params.activate) {
+        context.currentSessionId = fork.id;
+      }
+
+      process.stderr.write(
+        `[tool.forkSession] Forked session ${source.id} into ${fork.id}\n`,
       );
+      return {
+        content: [
+          {
+            type: "text",
+            text: [
+              `Forked session ${source.id} into new session ${fork.id}${fork.name ? ` (${fork.name})` : ""}${params.activate ? " [active]" : ""}`,
+              `Source session ID: ${source.id}`,
+              `New session ID: ${fork.id}`,
+              `URL: ${url}`,
+              `${restored}.`,
+              ...(persists
+                ? [
+                    `The fork uses Browserbase Context ${settings.context?.contextId} without persisting to it; only the source session saves its changes.`,
+                  ]
+                : []),
+            ].join("\n"),
+          },
+        ],
+      };
+    } catch (error) {
+      // Don't leave a half-initialized fork behind
+      await sessionRegistry.remove(fork.id);
+      throw error;
+    }
+  };
 
-      if (session && session.stagehand) {
-        // Store the actual Browserbase session ID for the replay URL
-        browserbaseSessionId = session.sessionId;
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
 
-        process.stderr.write(
-          `[tool.closeSession] Attempting to close Stagehand for session: ${previousSessionId || "default"} (Browserbase ID: ${browserbaseSessionId})`,
-        );
+const forkSessionTool: Tool<typeof ForkSessionInputSchema> = {
+  capability: "sessions",
+  schema: forkSessionSchema,
+  handle: handleForkSession,
+};
 
-        // Use Stagehand's close method which handles browser cleanup properly
-        await session.stagehand.close();
-        stagehandClosedSuccessfully = true;
+const NO_REATTACH_MESSAGE =
+  "Detaching and reattaching sessions over HTTP needs authentication, so sessions can't be reattached by other clients";
 
-        process.stderr.write(
-          `[tool.closeSession] Stagehand and browser connection for session (${previousSessionId}) closed successfully.`,
-        );
+// --- Tool: Detach Session ---
+const DetachSessionInputSchema = z.object({
+  sessionId: z
+    .string()
+    .optional()
+    .describe(
+      "ID of the session to detach, from browserbase_session_list. Defaults to the active session.",
+    ),
+});
+type DetachSessionInput = z.infer<typeof DetachSessionInputSchema>;
 
-        // Clean up the session from tracking
-        await cleanupSession(previousSessionId);
+const detachSessionSchema: ToolSchema<typeof DetachSessionInputSchema> = {
+  name: "browserbase_session_detach",
+  description:
+    "Disconnects from a browser session but leaves its browser running, with its pages, cookies and logins, so it can be reattached with browserbase_session_reattach, even after the server restarts. Works for CDP sessions, and for Browserbase sessions when the server runs with persistSessions.",
+  inputSchema: DetachSessionInputSchema,
+};
 
-        if (browserbaseSessionId) {
-          process.stderr.write(
-            `[tool.closeSession] View session replay at https://www.browserbase.com/sessions/${browserbaseSessionId}`,
-          );
-        }
-      } else {
-        process.stderr.write(
-          `[tool.closeSession] No Stagehand instance found for session: ${previousSessionId || "default/unknown"}`,
-        );
-      }
-    } catch (error: unknown) {
-      stagehandCloseErrorMessage =
-        error instanceof Error ? error.message : String(error);
-      process.stderr.write(
-        `[tool.closeSession] Error retrieving or closing Stagehand (session ID was ${previousSessionId || "default/unknown"}): ${stagehandCloseErrorMessage}`,
-      );
+async function handleDetachSession(
+  context: Context,
+  params: DetachSessionInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    if (!params.sessionId && !context.currentSessionId) {
+      throw new Error("No active session to detach; pass a sessionId");
+    }
+    if (!context.canReattach()) {
+      throw new Error(NO_REATTACH_MESSAGE);
+    }
+    const session = await context.getSession(params.sessionId);
+    await detachSession(context.config, session, "tool");
+    if (session.id === context.currentSessionId) {
+      context.currentSessionId = undefined;
     }
 
-    // Step 2: Always reset the context's current session ID to default
-    const oldContextSessionId = context.currentSessionId;
-    context.currentSessionId = defaultSessionId;
-    process.stderr.write(
-      `[tool.closeSession] Session context reset to default. Previous context session ID was ${oldContextSessionId || "default/unknown"}.`,
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Detached session ${session.id}${session.name ? ` (${session.name})` : ""}. Its browser keeps running until it times out; reattach it with browserbase_session_reattach and sessionId ${session.id}.`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const detachSessionTool: Tool<typeof DetachSessionInputSchema> = {
+  capability: "sessions",
+  schema: detachSessionSchema,
+  handle: handleDetachSession,
+};
+
+// --- Tool: Reattach Session ---
+const ReattachSessionInputSchema = z.object({
+  sessionId: z
+    .string()
+    .describe(
+      "ID of the detached session, or its Browserbase session ID, from browserbase_session_list",
+    ),
+});
+type ReattachSessionInput = z.infer<typeof ReattachSessionInputSchema>;
+
+const reattachSessionSchema: ToolSchema<typeof ReattachSessionInputSchema> = {
+  name: "browserbase_session_reattach",
+  description:
+    "Reconnects to a detached browser session, including sessions kept when the server last exited, and makes it the active session. It keeps its ID, pages and logins.",
+  inputSchema: ReattachSessionInputSchema,
+};
+
+async function handleReattachSession(
+  context: Context,
+  params: ReattachSessionInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    if (!context.canReattach()) {
+      throw new Error(NO_REATTACH_MESSAGE);
+    }
+    const session = await reattachSession(
+      context.config,
+      params.sessionId,
+      context.sessionOwner(),
     );
+    if (!session) {
+      throw new Error(`No detached session found for ID: ${params.sessionId}`);
+    }
+    context.currentSessionId = session.id;
 
-    // Step 3: Determine the result message
-    if (stagehandCloseErrorMessage && !stagehandClosedSuccessfully) {
-      throw new Error(
-        `Failed to close the Stagehand session (session ID in context was ${previousSessionId || "default/unknown"}). Error: ${stagehandCloseErrorMessage}. Session context has been reset to default.`,
-      );
+    const liveView = await getProvider(
+      context.config,
+      session.provider,
+    ).getLiveView(context.config, session.stagehand);
+    return {
+      content: [
+        {
+          type: "text",
+          text: [
+            `Reattached session ${session.id}${session.name ? ` (${session.name})` : ""}, now active. URL: ${session.stagehand.page.url()}`,
+            ...formatLiveView(liveView),
+          ].join("\n"),
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const reattachSessionTool: Tool<typeof ReattachSessionInputSchema> = {
+  capability: "sessions",
+  schema: reattachSessionSchema,
+  handle: handleReattachSession,
+};
+
+// --- Tool: List Sessions ---
+const ListSessionsInputSchema = z.object({});
+
+const listSessionsSchema: ToolSchema<typeof ListSessionsInputSchema> = {
+  name: "browserbase_session_list",
+  description:
+    "Lists the browser sessions of this connection with their IDs, names, ages, Browserbase session IDs and effective settings, marking the active one, followed by the session limits. Use it to get session IDs to pass to the other tools.",
+  inputSchema: ListSessionsInputSchema,
+};
+
+// Describe session limits and this connection's place in the queue
+function formatQuota(status: ReturnType<typeof quotaStatus>): string {
+  const limit = (max?: number) => (max ? `${max}` : "unlimited");
+  return [
+    `Session limits: ${status.inUse}/${limit(status.maxSessions)} in use on this server, ${status.connectionInUse}/${limit(status.maxSessionsPerConnection)} for this connection`,
+    `Queue: ${status.queued} waiting${
+      status.queuePositions.length > 0
+        ? ` (this connection at position ${status.queuePositions.join(", ")})`
+        : ""
+    }`,
+  ].join("\n");
+}
+
+// Describe the sessions that can be reattached, ending with a newline if there are any
+function formatDetached(detached: DetachedSession[]): string {
+  if (detached.length === 0) return "";
+  return `Detached sessions (${detached.length}), reattach with browserbase_session_reattach:\n${detached
+    .map(
+      (s) =>
+        `- ${s.id}${s.name ? ` (${s.name})` : ""} - ${s.providerSessionId ? `BB: ${s.providerSessionId}` : `Provider: ${s.provider}`} - Detached: ${new Date(s.detached).toISOString()}${s.reason === "exit" ? " (server exit)" : ""}`,
+    )
+    .join("\n")}\n`;
+}
+
+async function handleListSessions(context: Context): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const sessions = sessionRegistry.list(context.id);
+    const quota = formatQuota(quotaStatus(context.config, context.id));
+    const detached = formatDetached(
+      context.canReattach()
+        ? await listDetached(context.config, context.principal?.id)
+        : [],
+    );
+
+    if (sessions.length === 0) {
+      return {
+        content: [
+          { type: "text", text: `No active sessions\n${detached}${quota}` },
+        ],
+      };
     }
 
-    if (stagehandClosedSuccessfully) {
-      let successMessage = `Browserbase session (${previousSessionId || "default"}) closed successfully via Stagehand. Context reset to default.`;
-      if (browserbaseSessionId && previousSessionId !== defaultSessionId) {
-        successMessage += ` View replay at https://www.browserbase.com/sessions/${browserbaseSessionId}`;
+    const lifetime = browserSessionLifetime(context.config);
+    const lines = sessions.map((s) => {
+      const expiry = expiresAt(s, lifetime);
+      const age = Math.floor((Date.now() - s.created) / 1000);
+      const idle = Math.floor((Date.now() - s.lastUsed) / 1000);
+      const expiresIn =
+        expiry === undefined
+          ? "never"
+          : `${Math.max(0, Math.floor((expiry - Date.now()) / 1000))}s`;
+      return [
+        `- ${s.id}${s.name ? ` (${s.name})` : ""}${s.id === context.currentSessionId ? " [active]" : ""} - ${s.providerSessionId ? `BB: ${s.providerSessionId}` : `Provider: ${s.provider}`} - Age: ${age}s - Idle: ${idle}s - Expires in: ${expiresIn}`,
+        `  Settings: ${formatSessionSettings(s.settings)}`,
+      ].join("\n");
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Active sessions (${sessions.length}):\n${lines.join("\n")}\n${detached}${quota}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+export const listSessionsTool: Tool<typeof ListSessionsInputSchema> = {
+  capability: "sessions",
+  schema: listSessionsSchema,
+  handle: handleListSessions,
+};
+
+// --- Tool: Close Session ---
+const CloseSessionInputSchema = z.object({
+  sessionId: z
+    .string()
+    .optional()
+    .describe(
+      "ID of the session to close, from browserbase_session_list. Defaults to the active session.",
+    ),
+});
+type CloseSessionInput = z.infer<typeof CloseSessionInputSchema>;
+
+const closeSessionSchema: ToolSchema<typeof CloseSessionInputSchema> = {
+  name: "browserbase_session_close",
+  description:
+    "Closes a browser session, the active one unless a sessionId is given, by properly shutting down the Stagehand instance, which handles browser cleanup and terminates the session recording. Always close sessions when finished to free resources.",
+  inputSchema: CloseSessionInputSchema,
+};
+
+async function handleCloseSession(
+  context: Context,
+  params: CloseSessionInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    if (params.sessionId && params.sessionId !== context.currentSessionId) {
+      // Closing another session leaves the active one alone
+      const session = sessionRegistry.get(params.sessionId, context.id);
+      if (!session) {
+        throw new Error(`Session ${params.sessionId} not found`);
       }
-      return { content: [{ type: "text", text: successMessage }] };
+      return closeSession(context, session);
     }
 
-    // No Stagehand instance was found
-    let infoMessage =
-      "No active Stagehand session found to close. Session context has been reset to default.";
-    if (previousSessionId && previousSessionId !== defaultSessionId) {
-      infoMessage = `No active Stagehand session found for session ID '${previousSessionId}'. The context has been reset to default.`;
+    const previousSessionId = context.currentSessionId;
+    const session = previousSessionId
+      ? sessionRegistry.get(previousSessionId, context.id)
+      : null;
+
+    // Always clear the current session; the next tool call starts a new one
+    context.currentSessionId = undefined;
+
+    if (!session) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: previousSessionId
+              ? `No active session found for session ID '${previousSessionId}'. The current session has been cleared.`
+              : "No active session found to close.",
+          },
+        ],
+      };
     }
-    return { content: [{ type: "text", text: infoMessage }] };
+
+    return closeSession(context, session);
   };
 
   return {
@@ -228,10 +577,45 @@ async function handleCloseSession(context: Context): Promise<ToolResult> {
   };
 }
 
-const closeSessionTool: Tool<typeof CloseSessionInputSchema> = {
-  capability: "core",
+// Close a session, reporting its replay URL when the provider has one
+async function closeSession(
+  context: Context,
+  session: BrowserSession,
+): Promise<ToolActionResult> {
+  // Store the replay URL before the session goes away
+  const replayUrl = session.providerSessionId
+    ? getProvider(context.config, session.provider).getReplayUrl?.(
+        session.providerSessionId,
+      )
+    : undefined;
+
+  process.stderr.write(
+    `[tool.closeSession] Closing session: ${session.id}${session.providerSessionId ? ` (${session.provider} ID: ${session.providerSessionId})` : ""}\n`,
+  );
+  // Closes through the provider: attached CDP browsers are detached, not killed
+  await sessionRegistry.remove(session.id);
+
+  let successMessage = `Browser session (${session.id}) closed successfully.`;
+  if (replayUrl) {
+    process.stderr.write(
+      `[tool.closeSession] View session replay at ${replayUrl}\n`,
+    );
+    successMessage += ` View replay at ${replayUrl}`;
+  }
+  return { content: [{ type: "text", text: successMessage }] };
+}
+
+export const closeSessionTool: Tool<typeof CloseSessionInputSchema> = {
+  capability: "sessions",
   schema: closeSessionSchema,
   handle: handleCloseSession,
 };
 
-export default [createSessionTool, closeSessionTool];
+export default [
+  createSessionTool,
+  forkSessionTool,
+  detachSessionTool,
+  reattachSessionTool,
+  listSessionsTool,
+  closeSessionTool,
+];
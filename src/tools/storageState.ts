@@ -0,0 +1,197 @@
+import { z } from "zod";
+import {
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
+import type { Context } from "../context.js";
+import type { BrowserSession, ToolActionResult } from "../types/types.js";
+import * as sessionRegistry from "../sessionRegistry.js";
+import {
+  captureStorageState,
+  loadSnapshot,
+  restoreStorageState,
+  saveSnapshot,
+  type SnapshotLocation,
+  type SnapshotScope,
+} from "../storageState.js";
+
+const snapshotNameSchema = z
+  .string()
+  .regex(
+    /^[\w.-]+$/,
+    "Use only letters, digits, '_', '-' and '.' in snapshot names",
+  )
+  .describe("Name of the snapshot, e.g. 'github-login'");
+
+const locationSchema = z
+  .enum(["disk", "resource"])
+  .optional()
+  .describe(
+    "Where the snapshot lives: 'disk' (default) keeps it in the server's storage state directory across restarts; 'resource' keeps it in memory as an MCP resource (storage-state://<name>) until this connection closes. Unauthenticated HTTP connections can only use 'resource', which is their default.",
+  );
+
+function snapshotScope(context: Context): SnapshotScope {
+  return {
+    config: context.config,
+    owner: context.id,
+    principal: context.principal,
+    // Same rule as reattaching: only stdio and authenticated callers can be
+    // told apart from other clients
+    diskAllowed: context.canReattach(),
+  };
+}
+
+function snapshotLocation(
+  context: Context,
+  location: SnapshotLocation | undefined,
+): SnapshotLocation {
+  return location ?? (context.canReattach() ? "disk" : "resource");
+}
+
+// --- Tool: Export Storage State ---
+const ExportStorageInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  name: snapshotNameSchema,
+  location: locationSchema,
+});
+type ExportStorageInput = z.infer<typeof ExportStorageInputSchema>;
+
+const exportStorageSchema: ToolSchema<typeof ExportStorageInputSchema> = {
+  name: "browserbase_storage_export",
+  description:
+    "Saves a session's storage state (cookies, localStorage, IndexedDB and the sessionStorage of open tabs) as a named snapshot. Import it later with browserbase_storage_import to reuse a login in another session, with any provider and without Browserbase Contexts. Replaces an existing snapshot with the same name.",
+  inputSchema: ExportStorageInputSchema,
+};
+
+async function handleExportStorage(
+  context: Context,
+  params: ExportStorageInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const session = await context.getSession(params.sessionId);
+    const snapshot = await captureStorageState(session);
+    const location = snapshotLocation(context, params.location);
+    const savedTo = await saveSnapshot(
+      snapshot,
+      params.name,
+      location,
+      snapshotScope(context),
+    );
+
+    if (location === "resource") {
+      // Notify the client that the resources changed
+      await context
+        .getServer()
+        .notification({ method: "notifications/resources/list_changed" });
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Saved storage state of session ${session.id} as ${params.name} (${savedTo}): ${snapshot.cookies.length} cookie(s), ${snapshot.origins.length} origin(s) with localStorage or IndexedDB, ${snapshot.sessionStorage.length} origin(s) with sessionStorage`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const exportStorageTool: Tool<typeof ExportStorageInputSchema> = {
+  capability: "storage",
+  schema: exportStorageSchema,
+  handle: handleExportStorage,
+};
+
+// --- Tool: Import Storage State ---
+const ImportStorageInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  name: snapshotNameSchema,
+  location: locationSchema,
+  newSession: z
+    .boolean()
+    .optional()
+    .describe(
+      "Import into a new session, which becomes the active session, instead of an existing one",
+    ),
+  sessionName: z
+    .string()
+    .optional()
+    .describe("Descriptive name for the new session"),
+});
+type ImportStorageInput = z.infer<typeof ImportStorageInputSchema>;
+
+const importStorageSchema: ToolSchema<typeof ImportStorageInputSchema> = {
+  name: "browserbase_storage_import",
+  description:
+    "Loads a storage state snapshot saved with browserbase_storage_export into an existing session or a new one. Cookies and localStorage are restored; sessionStorage is seeded into tabs of the same origin. Navigate or reload afterwards so the site picks up the login.",
+  inputSchema: ImportStorageInputSchema,
+};
+
+async function handleImportStorage(
+  context: Context,
+  params: ImportStorageInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    if (params.newSession && params.sessionId) {
+      throw new Error("Pass either sessionId or newSession, not both");
+    }
+
+    // Load first, so a missing snapshot doesn't leave a new session behind
+    const snapshot = await loadSnapshot(
+      params.name,
+      snapshotLocation(context, params.location),
+      snapshotScope(context),
+    );
+
+    let session: BrowserSession;
+    let summary: string;
+    if (params.newSession) {
+      session = await sessionRegistry.create(
+        context.config,
+        {},
+        { ...context.sessionOwner(), name: params.sessionName },
+      );
+      try {
+        summary = await restoreStorageState(session, snapshot);
+      } catch (error) {
+        // Don't leave a half-initialized session behind
+        await sessionRegistry.remove(session.id);
+        throw error;
+      }
+      // Only becomes active once it has the snapshot
+      context.currentSessionId = session.id;
+    } else {
+      session = await context.getSession(params.sessionId);
+      summary = await restoreStorageState(session, snapshot);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Imported ${params.name} into session ${session.id}${params.newSession ? " (new, now active)" : ""}. ${summary}.`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const importStorageTool: Tool<typeof ImportStorageInputSchema> = {
+  capability: "storage",
+  schema: importStorageSchema,
+  handle: handleImportStorage,
+};
+
+export default [exportStorageTool, importStorageTool];
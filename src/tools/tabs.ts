@@ -0,0 +1,203 @@
+import { z } from "zod";
+import {
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
+import type { Context } from "../context.js";
+import type { BrowserSession, Tab, ToolActionResult } from "../types/types.js";
+import { closeTab, openTab, switchTab } from "../tabs.js";
+
+const tabIdSchema = z
+  .string()
+  .describe("ID of the tab, e.g. 'tab-2', from browserbase_tab_list");
+
+async function formatTab(session: BrowserSession, tab: Tab): Promise<string> {
+  const title = await tab.page.title().catch(() => "");
+  return `- ${tab.id}${tab.id === session.activeTabId ? " [active]" : ""}: ${title || "(no title)"} - ${tab.page.url()}${tab.openerId ? ` (opened by ${tab.openerId})` : ""}`;
+}
+
+// --- Tool: List Tabs ---
+const ListTabsInputSchema = z.object({
+  sessionId: sessionIdSchema,
+});
+type ListTabsInput = z.infer<typeof ListTabsInputSchema>;
+
+const listTabsSchema: ToolSchema<typeof ListTabsInputSchema> = {
+  name: "browserbase_tab_list",
+  description:
+    "Lists the open tabs of a session with their IDs, titles and URLs, marking the active tab that the other tools act on. Tabs opened by the page, such as popups, OAuth windows and links with target=_blank, are listed with the tab that opened them.",
+  inputSchema: ListTabsInputSchema,
+};
+
+async function handleListTabs(
+  context: Context,
+  params: ListTabsInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const session = await context.getSession(params.sessionId);
+    const lines = await Promise.all(
+      session.tabs.map((tab) => formatTab(session, tab)),
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Tabs of session ${session.id} (${lines.length}):\n${lines.join("\n")}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const listTabsTool: Tool<typeof ListTabsInputSchema> = {
+  capability: "tabs",
+  schema: listTabsSchema,
+  handle: handleListTabs,
+};
+
+// --- Tool: Open Tab ---
+const OpenTabInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  url: z.string().optional().describe("URL to open in the new tab"),
+});
+type OpenTabInput = z.infer<typeof OpenTabInputSchema>;
+
+const openTabSchema: ToolSchema<typeof OpenTabInputSchema> = {
+  name: "browserbase_tab_open",
+  description:
+    "Opens a new tab in a session, optionally at a URL, and makes it the active tab. The other tabs keep their pages.",
+  inputSchema: OpenTabInputSchema,
+};
+
+async function handleOpenTab(
+  context: Context,
+  params: OpenTabInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const session = await context.getSession(params.sessionId);
+    const tab = await openTab(session, params.url);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Opened ${tab.id}, now the active tab\n${await formatTab(session, tab)}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const openTabTool: Tool<typeof OpenTabInputSchema> = {
+  capability: "tabs",
+  schema: openTabSchema,
+  handle: handleOpenTab,
+};
+
+// --- Tool: Switch Tab ---
+const SwitchTabInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  tabId: tabIdSchema,
+});
+type SwitchTabInput = z.infer<typeof SwitchTabInputSchema>;
+
+const switchTabSchema: ToolSchema<typeof SwitchTabInputSchema> = {
+  name: "browserbase_tab_switch",
+  description:
+    "Makes a tab the active tab of its session, so navigate, act, extract, observe and screenshot work on it.",
+  inputSchema: SwitchTabInputSchema,
+};
+
+async function handleSwitchTab(
+  context: Context,
+  params: SwitchTabInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const session = await context.getSession(params.sessionId);
+    const tab = await switchTab(session, params.tabId);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Switched to ${tab.id}\n${await formatTab(session, tab)}`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const switchTabTool: Tool<typeof SwitchTabInputSchema> = {
+  capability: "tabs",
+  schema: switchTabSchema,
+  handle: handleSwitchTab,
+};
+
+// --- Tool: Close Tab ---
+const CloseTabInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  tabId: tabIdSchema
+    .optional()
+    .describe(
+      "ID of the tab to close, from browserbase_tab_list. Defaults to the active tab.",
+    ),
+});
+type CloseTabInput = z.infer<typeof CloseTabInputSchema>;
+
+const closeTabSchema: ToolSchema<typeof CloseTabInputSchema> = {
+  name: "browserbase_tab_close",
+  description:
+    "Closes a tab of a session, e.g. a popup that is done. When the active tab closes, the tab that opened it, or else the tab active before it, becomes active.",
+  inputSchema: CloseTabInputSchema,
+};
+
+async function handleCloseTab(
+  context: Context,
+  params: CloseTabInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    const session = await context.getSession(params.sessionId);
+    const tabId = params.tabId ?? session.activeTabId!;
+    const active = await closeTab(session, tabId);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Closed ${tabId}. ${
+            active
+              ? `Active tab:\n${await formatTab(session, active)}`
+              : "No tabs are left; the next tool call opens a new one."
+          }`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const closeTabTool: Tool<typeof CloseTabInputSchema> = {
+  capability: "tabs",
+  schema: closeTabSchema,
+  handle: handleCloseTab,
+};
+
+export default [listTabsTool, openTabTool, switchTabTool, closeTabTool];
@@ -2,9 +2,37 @@ import type {
   ImageContent,
   TextContent,
 } from "@modelcontextprotocol/sdk/types.js";
-import type { z } from "zod";
+import { z } from "zod";
 import type { Context } from "../context.js";
 
+/**
+ * Tool groups that can be enabled or disabled together
+ * - core: navigate, act, extract, observe and list frames
+ * - sessions: create, list and close browser sessions
+ * - contexts: create, list, describe and delete Browserbase Contexts
+ * - cookies: get, set and clear the cookies of a live session
+ * - storage: export and import storage state snapshots
+ * - tabs: list, open, switch and close the tabs of a session
+ * - dialogs: list and answer JavaScript dialogs
+ * - uploads: set files on file inputs and file choosers
+ * - multi-session: the legacy multi_* tools, only exposed with `legacyMultiSessionTools`
+ * - vision: screenshots
+ */
+export const TOOL_CAPABILITIES = [
+  "core",
+  "sessions",
+  "contexts",
+  "cookies",
+  "storage",
+  "tabs",
+  "dialogs",
+  "uploads",
+  "multi-session",
+  "vision",
+] as const;
+
+export type ToolCapability = (typeof TOOL_CAPABILITIES)[number];
+
 export type ToolSchema<Input extends InputType> = {
   name: string;
   description: string;
@@ -14,6 +42,40 @@ export type ToolSchema<Input extends InputType> = {
 // Export InputType
 export type InputType = z.Schema;
 
+/**
+ * Optional `sessionId` input shared by every browser tool
+ */
+export const sessionIdSchema = z
+  .string()
+  .optional()
+  .describe(
+    "ID of the session to use, from browserbase_session_create or browserbase_session_list. Defaults to the active session.",
+  );
+
+/**
+ * Optional `frame` input of the tools that work inside iframes
+ */
+export const frameSchema = z
+  .object({
+    index: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Index from browserbase_frames_list; 0 is the page itself"),
+    name: z.string().optional().describe("The frame's name attribute"),
+    url: z
+      .string()
+      .optional()
+      .describe(
+        "Part of the frame's URL, e.g. 'js.stripe.com', or a pattern with * wildcards",
+      ),
+  })
+  .optional()
+  .describe(
+    "Work inside this iframe of the active tab instead of the top-level page, e.g. a payment form, embedded editor or consent banner. Given fields must all match exactly one frame; see browserbase_frames_list. Iframes need the server's frameTargeting setting.",
+  );
+
 export type ToolActionResult =
   | { content?: (ImageContent | TextContent)[] }
   | undefined
@@ -25,7 +87,7 @@ export type ToolResult = {
 };
 
 export type Tool<Input extends InputType = InputType> = {
-  capability: string;
+  capability: ToolCapability;
   schema: ToolSchema<Input>;
   handle: (context: Context, params: z.output<Input>) => Promise<ToolResult>;
 };
@@ -0,0 +1,168 @@
+import { z } from "zod";
+import type { Locator } from "playwright-core";
+import {
+  frameSchema,
+  sessionIdSchema,
+  type Tool,
+  type ToolSchema,
+  type ToolResult,
+} from "./tool.js";
+import type { Context } from "../context.js";
+import type { ToolActionResult } from "../types/types.js";
+import {
+  describeFrame,
+  locateElement,
+  observeFrames,
+  resolveFrame,
+} from "../frames.js";
+import { activePlaywrightPage } from "../pages.js";
+import {
+  armFileChooser,
+  loadUploadFiles,
+  uploadToElement,
+} from "../uploads.js";
+
+const fileSchema = z.object({
+  name: z
+    .string()
+    .optional()
+    .describe(
+      "File name the page sees, e.g. 'resume.pdf'. Required with base64; defaults to the resource or file name otherwise.",
+    ),
+  mimeType: z
+    .string()
+    .optional()
+    .describe(
+      "MIME type, e.g. 'text/csv'. Guessed from the name when omitted.",
+    ),
+  base64: z.string().optional().describe("The file content, base64-encoded"),
+  resource: z
+    .string()
+    .optional()
+    .describe("URI of an MCP resource to upload, e.g. 'screenshot://...'"),
+  path: z
+    .string()
+    .optional()
+    .describe(
+      "Path of a file inside the server's upload directory (the uploadDir setting)",
+    ),
+});
+
+const UploadInputSchema = z.object({
+  sessionId: sessionIdSchema,
+  files: z
+    .array(fileSchema)
+    .min(1)
+    .describe(
+      "Files to upload. Give each exactly one of base64, resource or path as its content.",
+    ),
+  instruction: z
+    .string()
+    .optional()
+    .describe(
+      "The upload control to use, found with observe, e.g. 'the resume upload field' or 'the Import CSV button'",
+    ),
+  selector: z
+    .string()
+    .optional()
+    .describe(
+      "CSS selector, or XPath prefixed with 'xpath=', of the upload control, instead of an instruction",
+    ),
+  frame: frameSchema,
+});
+type UploadInput = z.infer<typeof UploadInputSchema>;
+
+const uploadSchema: ToolSchema<typeof UploadInputSchema> = {
+  name: "browserbase_upload_files",
+  description:
+    "Uploads files to a file input of the active tab, e.g. for resume uploads or CSV imports. " +
+    "Identify the control with an instruction or a selector: file inputs get the files directly, and other " +
+    "controls such as upload buttons or drop zones are clicked and the file chooser they open is answered. " +
+    "Without an instruction or selector, the files answer the next file chooser the page opens within a minute, " +
+    "e.g. when browserbase_stagehand_act clicks an upload button.",
+  inputSchema: UploadInputSchema,
+};
+
+async function handleUpload(
+  context: Context,
+  params: UploadInput,
+): Promise<ToolResult> {
+  const action = async (): Promise<ToolActionResult> => {
+    if (params.instruction && params.selector) {
+      throw new Error("Pass either an instruction or a selector, not both");
+    }
+    // Load first, so bad file arguments don't start or claim a browser
+    const files = await loadUploadFiles(context.config, params.files, (uri) =>
+      context.readResource(uri),
+    );
+    const session = await context.getSession(params.sessionId);
+    const page = activePlaywrightPage(session.stagehand);
+    const names = files.map((file) => file.name).join(", ");
+
+    if (!params.instruction && !params.selector) {
+      const seconds = armFileChooser(session, page, files);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${names} will answer the next file chooser the active tab opens in the next ${seconds} seconds`,
+          },
+        ],
+      };
+    }
+
+    let locator: Locator;
+    let target: string;
+    if (params.instruction) {
+      const [element] = await observeFrames(
+        session.stagehand,
+        { instruction: params.instruction },
+        params.frame,
+      );
+      if (!element) {
+        throw new Error(`No upload control found for: ${params.instruction}`);
+      }
+      locator = locateElement(element);
+      target = `${element.description}${
+        element.frame.index > 0
+          ? ` in frame ${describeFrame(element.frame)}`
+          : ""
+      }`;
+    } else {
+      const frame = params.frame
+        ? (await resolveFrame(session.stagehand, params.frame)).frame
+        : undefined;
+      locator = (frame?.handle ?? page.mainFrame())
+        .locator(params.selector!)
+        .first();
+      target = `${params.selector}${
+        frame && frame.index > 0 ? ` in frame ${describeFrame(frame)}` : ""
+      }`;
+    }
+
+    const how = await uploadToElement(page, locator, files);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Uploaded ${names} to ${target}${
+            how === "chooser" ? " through the file chooser it opened" : ""
+          }`,
+        },
+      ],
+    };
+  };
+
+  return {
+    action: action,
+    waitForNetwork: false,
+  };
+}
+
+const uploadTool: Tool<typeof UploadInputSchema> = {
+  capability: "uploads",
+  schema: uploadSchema,
+  handle: handleUpload,
+};
+
+export default uploadTool;
@@ -5,7 +5,123 @@ import crypto from "node:crypto";
 import { ServerList } from "./server.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import type { Config } from "../config.d.ts";
+import {
+  AuthError,
+  wwwAuthenticate,
+  type Authenticator,
+  type Principal,
+} from "./auth.js";
+import { credentialsFromHeaders } from "./credentials.js";
+import { gauge, renderMetrics } from "./metrics.js";
+import * as sessionRegistry from "./sessionRegistry.js";
+import { screenshotStats } from "./mcp/resources.js";
+import { pooledCount } from "./pool.js";
+import {
+  expiryReason,
+  registerReapTask,
+  type Lifetime,
+  type Tracked,
+} from "./reaper.js";
+
+const RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+// Set once the process starts shutting down, so /readyz stops routing new clients here
+let shuttingDown = false;
+
+/**
+ * Mark the server as shutting down. /readyz reports not ready from then on.
+ */
+export function beginShutdown() {
+  shuttingDown = true;
+}
+
+// Gauges describing the process state at scrape time
+function registerStateMetrics(serverList: ServerList) {
+  gauge("browserbase_mcp_connections", "Open MCP connections", () => [
+    { value: serverList.size() },
+  ]);
+  gauge("browserbase_mcp_browser_sessions", "Live browser sessions", () => [
+    { value: sessionRegistry.size() },
+  ]);
+  gauge(
+    "browserbase_mcp_pooled_sessions",
+    "Warm browser sessions waiting in the pool",
+    () => [{ value: pooledCount() }],
+  );
+  gauge("browserbase_mcp_screenshots", "Screenshots held in memory", () => [
+    { value: screenshotStats().count },
+  ]);
+  gauge(
+    "browserbase_mcp_screenshot_bytes",
+    "Size of the base64-encoded screenshots held in memory",
+    () => [{ value: screenshotStats().bytes }],
+  );
+}
+
+// Liveness, readiness and metrics for orchestrators. These routes are not authenticated.
+function handleOperational(
+  res: http.ServerResponse,
+  pathname: string,
+  httpServer: http.Server,
+): boolean {
+  switch (pathname) {
+    case "/healthz":
+      res.setHeader("Content-Type", "text/plain");
+      res.end("ok");
+      return true;
+    case "/readyz": {
+      const ready = httpServer.listening && !shuttingDown;
+      res.statusCode = ready ? 200 : 503;
+      res.setHeader("Content-Type", "text/plain");
+      res.end(ready ? "ready" : "shutting down");
+      return true;
+    }
+    case "/metrics":
+      res.setHeader("Content-Type", "text/plain; version=0.0.4");
+      res.end(renderMetrics());
+      return true;
+    default:
+      return false;
+  }
+}
+
+// An HTTP session and the principal that opened it
+type BoundSession<T extends Transport> = Tracked & {
+  transport: T;
+  principal?: Principal;
+};
+
+export type HttpTransportOptions = {
+  authenticator?: Authenticator | null;
+  // Idle timeout and maximum lifetime of MCP HTTP sessions
+  lifetime?: Lifetime;
+};
+
+function bindSession<T extends Transport>(
+  transport: T,
+  principal?: Principal,
+): BoundSession<T> {
+  return { transport, principal, created: Date.now(), lastUsed: Date.now() };
+}
+
+// Close the MCP HTTP sessions that are past their idle timeout or maximum lifetime
+async function closeExpiredSessions(
+  sessions: Map<string, BoundSession<Transport>>,
+  lifetime: Lifetime,
+) {
+  for (const [sessionId, session] of sessions.entries()) {
+    const reason = expiryReason(session, lifetime);
+    if (!reason) continue;
+    process.stderr.write(
+      `[Reaper] Closing MCP session ${sessionId} because it ${reason}\n`,
+    );
+    sessions.delete(sessionId);
+    await session.transport.close();
+  }
+}
 
 export async function startStdioTransport(
   serverList: ServerList,
@@ -21,38 +137,95 @@ export async function startStdioTransport(
     }
   }
 
-  const server = await serverList.create();
+  const server = await serverList.create({ stdio: true });
   await server.connect(new StdioServerTransport());
 }
 
+// Legacy HTTP+SSE protocol: GET /sse opens the event stream, POST /messages sends requests
+async function handleSSE(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: URL,
+  serverList: ServerList,
+  sessions: Map<string, BoundSession<SSEServerTransport>>,
+  principal?: Principal,
+) {
+  if (req.method === "POST" && url.pathname === "/messages") {
+    const sessionId = url.searchParams.get("sessionId");
+    if (!sessionId) {
+      res.statusCode = 400;
+      res.end("Missing sessionId");
+      return;
+    }
+    const session = sessions.get(sessionId);
+    if (!session || session.principal?.id !== principal?.id) {
+      res.statusCode = 404;
+      res.end("Session not found");
+      return;
+    }
+    session.lastUsed = Date.now();
+    return await session.transport.handlePostMessage(req, res);
+  }
+
+  if (req.method === "GET" && url.pathname === "/sse") {
+    const transport = new SSEServerTransport("/messages", res);
+    sessions.set(transport.sessionId, bindSession(transport, principal));
+    const server = await serverList.create({
+      principal,
+      credentials: credentialsFromHeaders(req.headers),
+    });
+    res.on("close", () => {
+      sessions.delete(transport.sessionId);
+      serverList.close(server).catch((error) => {
+        process.stderr.write(
+          `[Transport] Error closing SSE session ${transport.sessionId}: ${
+            error instanceof Error ? error.message : String(error)
+          }\n`,
+        );
+      });
+    });
+    return await server.connect(transport);
+  }
+
+  res.statusCode = 405;
+  res.end("Method not allowed");
+}
+
 async function handleStreamable(
   req: http.IncomingMessage,
   res: http.ServerResponse,
   serverList: ServerList,
-  sessions: Map<string, StreamableHTTPServerTransport>,
+  sessions: Map<string, BoundSession<StreamableHTTPServerTransport>>,
+  principal?: Principal,
 ) {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
   if (sessionId) {
-    const transport = sessions.get(sessionId);
-    if (!transport) {
+    const session = sessions.get(sessionId);
+    // Sessions are bound to the principal that created them; another caller
+    // gets the same answer as for an unknown ID
+    if (!session || session.principal?.id !== principal?.id) {
       res.statusCode = 404;
       res.end("Session not found");
       return;
     }
-    return await transport.handleRequest(req, res);
+    session.lastUsed = Date.now();
+    return await session.transport.handleRequest(req, res);
   }
 
   if (req.method === "POST") {
     const transport = new StreamableHTTPServerTransport({
       sessionIdGenerator: () => crypto.randomUUID(),
       onsessioninitialized: (sessionId) => {
-        sessions.set(sessionId, transport);
+        sessions.set(sessionId, bindSession(transport, principal));
       },
     });
     transport.onclose = () => {
       if (transport.sessionId) sessions.delete(transport.sessionId);
     };
-    const server = await serverList.create();
+    const server = await serverList.create({
+      principal,
+      credentials: credentialsFromHeaders(req.headers),
+    });
     await server.connect(transport);
     return await transport.handleRequest(req, res);
   }
@@ -61,21 +234,140 @@ async function handleStreamable(
   res.end("Invalid request");
 }
 
+// The origin a client reached the server at, from its Host header, or null
+// if the header is not a plain host and port
+function requestOrigin(req: http.IncomingMessage): string | null {
+  const host = req.headers.host ?? "localhost";
+  if (!/^([\w.-]+|\[[\da-f:.]+\])(:\d+)?$/i.test(host)) return null;
+  try {
+    return new URL(`http://${host}`).origin;
+  } catch {
+    return null;
+  }
+}
+
+function sendInvalidHost(res: http.ServerResponse) {
+  res.statusCode = 400;
+  res.end("Bad request: invalid Host header");
+}
+
+// Reject a request that failed authentication, telling the client how to authenticate
+function sendAuthError(
+  res: http.ServerResponse,
+  error: unknown,
+  resourceMetadataUrl?: string,
+) {
+  if (!(error instanceof AuthError)) {
+    process.stderr.write(
+      `[Transport] Error authenticating request: ${
+        error instanceof Error ? error.message : String(error)
+      }\n`,
+    );
+    res.statusCode = 500;
+    res.end("Internal server error");
+    return;
+  }
+  res.statusCode = error.status;
+  res.setHeader(
+    "WWW-Authenticate",
+    wwwAuthenticate(error, resourceMetadataUrl),
+  );
+  res.setHeader("Content-Type", "application/json");
+  res.end(
+    JSON.stringify({
+      error: error.code ?? "unauthorized",
+      error_description: error.message,
+    }),
+  );
+}
+
 export function startHttpTransport(
   port: number,
   hostname: string | undefined,
   serverList: ServerList,
+  { authenticator = null, lifetime = {} }: HttpTransportOptions = {},
 ) {
-  const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+  const sseSessions = new Map<string, BoundSession<SSEServerTransport>>();
+  registerStateMetrics(serverList);
+  const streamableSessions = new Map<
+    string,
+    BoundSession<StreamableHTTPServerTransport>
+  >();
+  registerReapTask(async () => {
+    await closeExpiredSessions(sseSessions, lifetime);
+    await closeExpiredSessions(streamableSessions, lifetime);
+  });
   const httpServer = http.createServer(async (req, res) => {
     if (!req.url) {
       res.statusCode = 400;
       res.end("Bad request: missing URL");
       return;
     }
-    const url = new URL(`http://localhost${req.url}`);
+    // Only the path and query are taken from the request; the Host header is
+    // untrusted and only used for URLs the server advertises
+    let url: URL;
+    try {
+      url = new URL(req.url, "http://localhost");
+    } catch {
+      res.statusCode = 400;
+      res.end("Bad request: invalid URL");
+      return;
+    }
+
+    if (handleOperational(res, url.pathname, httpServer)) return;
+
+    // OAuth protected resource metadata is public so clients can discover the issuer
+    if (url.pathname === RESOURCE_METADATA_PATH) {
+      if (!authenticator?.resourceMetadata) {
+        res.statusCode = 404;
+        res.end("Not found");
+        return;
+      }
+      const origin = requestOrigin(req);
+      if (!origin) {
+        sendInvalidHost(res);
+        return;
+      }
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(authenticator.resourceMetadata(`${origin}/mcp`)));
+      return;
+    }
+
+    let principal: Principal | undefined;
+    if (authenticator) {
+      try {
+        principal = await authenticator.authenticate(req);
+      } catch (error) {
+        const origin = requestOrigin(req);
+        if (authenticator.resourceMetadata && !origin) {
+          sendInvalidHost(res);
+          return;
+        }
+        sendAuthError(
+          res,
+          error,
+          authenticator.resourceMetadata
+            ? `${origin}${RESOURCE_METADATA_PATH}`
+            : undefined,
+        );
+        return;
+      }
+    }
+
     if (url.pathname.startsWith("/mcp"))
-      await handleStreamable(req, res, serverList, streamableSessions);
+      await handleStreamable(
+        req,
+        res,
+        serverList,
+        streamableSessions,
+        principal,
+      );
+    else if (url.pathname === "/sse" || url.pathname === "/messages")
+      await handleSSE(req, res, url, serverList, sseSessions, principal);
+    else {
+      res.statusCode = 404;
+      res.end("Not found");
+    }
   });
   httpServer.listen(port, hostname, () => {
     const address = httpServer.address();
@@ -105,8 +397,17 @@ export function startHttpTransport(
         undefined,
         2,
       ),
-      "If your client supports streamable HTTP, you can use the /mcp endpoint instead.",
+      `If your client only supports the older HTTP+SSE protocol, use ${url}/sse instead.`,
     ].join("\n");
     console.log(message);
+
+    if (
+      !authenticator &&
+      !["localhost", "127.0.0.1", "::1", undefined].includes(hostname)
+    ) {
+      console.warn(
+        `WARNING: Listening on ${hostname} without authentication. Configure auth.tokens or auth.oauth to require bearer tokens.`,
+      );
+    }
   });
 }
@@ -1,32 +1,71 @@
 import type { Stagehand, Browser, Page } from "@browserbasehq/stagehand";
+import type { Dialog, Page as PlaywrightPage } from "playwright-core";
 import { ImageContent, TextContent } from "@modelcontextprotocol/sdk/types.js";
 import { Tool } from "../tools/tool.js";
 import { InputType } from "../tools/tool.js";
-
-export type StagehandSession = {
-  id: string; // MCP-side ID
-  stagehand: Stagehand; // owns the Browserbase session
-  page: Page;
-  browser: Browser;
-  created: number;
-  metadata?: Record<string, any>; // optional extras (proxy, contextId, bbSessionId)
-};
+import type { ProviderName } from "../providers/provider.js";
+import type { SessionSettings } from "../sessionSettings.js";
+import type { Config } from "../../config.d.ts";
 
 export type CreateSessionParams = {
+  provider?: ProviderName;
   apiKey?: string;
   projectId?: string;
   modelName?: string;
   modelApiKey?: string;
   browserbaseSessionID?: string;
+  cdpUrl?: string; // CDP endpoint of an existing browser (cdp provider)
   browserbaseSessionCreateParams?: any;
-  meta?: Record<string, any>;
 };
 
+/**
+ * A browser tab of a session, which tools address by its ID
+ */
+export type Tab = {
+  id: string; // e.g. "tab-2", unique within its session
+  page: PlaywrightPage;
+  openerId?: string; // the tab that opened it, for popups and window.open
+  activated: number; // when it last became the active tab
+};
+
+/**
+ * A JavaScript dialog waiting for the agent to answer it
+ */
+export type PendingDialog = {
+  id: string; // e.g. "dialog-3", unique within its session
+  dialog: Dialog;
+  tabId?: string; // the tab it blocks
+  opened: number;
+};
+
+/**
+ * A browser session, whether created as the active session or as one of several
+ * parallel sessions. Every tool addresses sessions by their MCP-side `id`.
+ */
 export type BrowserSession = {
+  id: string; // MCP-side ID
+  name?: string;
+  owner?: string; // ID of the MCP connection that created it
+  principal?: string; // ID of the authenticated caller, which outlives the connection
+  provider: ProviderName;
+  providerSessionId?: string; // Browserbase session ID, when the provider has one
+  stagehand: Stagehand; // owns the Browserbase session
+  page: Page; // Stagehand's page, kept on the active tab
   browser: Browser;
-  page: Page;
-  sessionId: string;
-  stagehand: Stagehand;
+  tabs: Tab[]; // open tabs, in the order they opened
+  activeTabId?: string; // the tab tools act on
+  tabsOpened: number; // tabs opened so far, for tab IDs
+  dialogs: PendingDialog[]; // queued dialogs, oldest first
+  dialogsOpened: number; // dialogs queued so far, for dialog IDs
+  dialogNotices: string[]; // dialogs to report with the next tool result
+  created: number;
+  lastUsed: number; // last tool use, for the idle reaper
+  releaseSlot: () => void; // frees this session's concurrency slot
+  params: CreateSessionParams; // what the session was created with, for reconnecting
+  config: Config; // the config it was created with, credentials and settings applied
+  settings: SessionSettings; // effective browser settings, server config plus overrides
+  reconnecting?: Promise<boolean>; // set while reattaching after a dropped connection
+  closing?: boolean; // set once the session is being closed on purpose
 };
 
 export type ToolActionResult =
@@ -0,0 +1,245 @@
+import * as fs from "fs";
+import * as path from "path";
+import type { Locator, Page as PlaywrightPage } from "playwright-core";
+import type { Config } from "../config.d.ts";
+import type { BrowserSession } from "./types/types.js";
+
+/**
+ * Files for file inputs and the file choosers pages open. Content comes from
+ * the tool call, from an MCP resource, or from the configured upload
+ * directory, which paths are never allowed to leave.
+ */
+
+export type UploadSource = {
+  name?: string;
+  mimeType?: string;
+  base64?: string;
+  resource?: string; // URI of an MCP resource, e.g. screenshot://...
+  path?: string; // relative to the upload directory
+};
+
+// The file shape Playwright takes
+export type UploadFile = { name: string; mimeType: string; buffer: Buffer };
+
+type ResourceContents = {
+  contents: { mimeType?: string; text?: string; blob?: string }[];
+};
+
+// Playwright refuses larger in-memory files
+const MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// How long a click on a non-input element may take to open a file chooser
+const CHOOSER_TIMEOUT_MS = 10_000;
+
+// How long files wait for a file chooser opened by a later tool call
+const ARMED_TIMEOUT_MS = 60_000;
+
+const MIME_TYPES: Record<string, string> = {
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".gif": "image/gif",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".webp": "image/webp",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
+function mimeTypeOf(name: string): string {
+  return (
+    MIME_TYPES[path.extname(name).toLowerCase()] ?? "application/octet-stream"
+  );
+}
+
+function extensionOf(mimeType: string): string {
+  return (
+    Object.entries(MIME_TYPES).find(([, type]) => type === mimeType)?.[0] ?? ""
+  );
+}
+
+// Read a file inside the upload directory, following symlinks only as far
+// as they stay inside it
+async function readFromUploadDir(
+  config: Config,
+  file: string,
+): Promise<Buffer> {
+  if (!config.uploadDir) {
+    throw new Error(
+      "Uploading by path needs the uploadDir setting; pass base64 content or a resource instead",
+    );
+  }
+  const root = await fs.promises.realpath(config.uploadDir);
+  let resolved: string;
+  try {
+    resolved = await fs.promises.realpath(path.resolve(root, file));
+  } catch {
+    throw new Error(`No file ${file} in the upload directory`);
+  }
+  if (!resolved.startsWith(`${root}${path.sep}`)) {
+    throw new Error(`${file} is outside the upload directory`);
+  }
+  const stat = await fs.promises.stat(resolved);
+  if (!stat.isFile()) {
+    throw new Error(`${file} in the upload directory is not a file`);
+  }
+  if (stat.size > MAX_UPLOAD_BYTES) {
+    throw new Error(`${file} is larger than 50 MB`);
+  }
+  return fs.promises.readFile(resolved);
+}
+
+async function loadFile(
+  config: Config,
+  source: UploadSource,
+  readResource: (uri: string) => ResourceContents,
+): Promise<UploadFile> {
+  const given = [source.base64, source.resource, source.path].filter(
+    (value) => value !== undefined,
+  );
+  if (given.length !== 1) {
+    throw new Error(
+      "Give each file exactly one of base64, resource or path as its content",
+    );
+  }
+
+  if (source.base64 !== undefined) {
+    if (!source.name) {
+      throw new Error("Files with base64 content need a name");
+    }
+    return {
+      name: source.name,
+      mimeType: source.mimeType ?? mimeTypeOf(source.name),
+      buffer: Buffer.from(source.base64, "base64"),
+    };
+  }
+
+  if (source.resource !== undefined) {
+    const [content] = readResource(source.resource).contents;
+    const mimeType =
+      source.mimeType ?? content?.mimeType ?? "application/octet-stream";
+    // screenshot://name becomes name.png
+    const name =
+      source.name ??
+      `${source.resource.replace(/^[\w-]+:\/\//, "").replace(/[/\\]/g, "_")}${extensionOf(mimeType)}`;
+    return {
+      name,
+      mimeType,
+      buffer:
+        content?.blob !== undefined
+          ? Buffer.from(content.blob, "base64")
+          : Buffer.from(content?.text ?? "", "utf8"),
+    };
+  }
+
+  const name = source.name ?? path.basename(source.path!);
+  return {
+    name,
+    mimeType: source.mimeType ?? mimeTypeOf(name),
+    buffer: await readFromUploadDir(config, source.path!),
+  };
+}
+
+/**
+ * Load the content of files to upload
+ * @param readResource Reads an MCP resource of the calling connection
+ */
+export async function loadUploadFiles(
+  config: Config,
+  sources: UploadSource[],
+  readResource: (uri: string) => ResourceContents,
+): Promise<UploadFile[]> {
+  const files = await Promise.all(
+    sources.map((source) => loadFile(config, source, readResource)),
+  );
+  const total = files.reduce((sum, file) => sum + file.buffer.length, 0);
+  if (total > MAX_UPLOAD_BYTES) {
+    throw new Error("Files to upload can be at most 50 MB together");
+  }
+  return files;
+}
+
+/**
+ * Set files on an element: a file input directly, or any other element,
+ * such as an upload button or drop zone, by clicking it and answering the
+ * file chooser it opens
+ * @returns How the files were set
+ */
+export async function uploadToElement(
+  page: PlaywrightPage,
+  locator: Locator,
+  files: UploadFile[],
+): Promise<"input" | "chooser"> {
+  const isFileInput = await locator.evaluate(
+    (el) => el instanceof HTMLInputElement && el.type === "file",
+  );
+  if (isFileInput) {
+    await locator.setInputFiles(files);
+    return "input";
+  }
+
+  const [chooser] = await Promise.all([
+    page.waitForEvent("filechooser", { timeout: CHOOSER_TIMEOUT_MS }),
+    locator.click(),
+  ]);
+  await chooser.setFiles(files);
+  return "chooser";
+}
+
+// Files waiting for the next file chooser of each session; arming again
+// replaces them
+const armedUploads = new WeakMap<BrowserSession, UploadFile[]>();
+
+/**
+ * Answer the next file chooser the page opens, e.g. when a later act clicks
+ * an upload button, with these files
+ * @returns Seconds the files wait for a file chooser
+ */
+export function armFileChooser(
+  session: BrowserSession,
+  page: PlaywrightPage,
+  files: UploadFile[],
+): number {
+  armedUploads.set(session, files);
+  // Whether these files are still the ones armed, taking them if so
+  const take = () => {
+    if (armedUploads.get(session) !== files) return false;
+    armedUploads.delete(session);
+    return true;
+  };
+  const report = (error: unknown) =>
+    error instanceof Error ? error.message : String(error);
+
+  // Outcomes are reported with the next tool result, like dialogs
+  page.waitForEvent("filechooser", { timeout: ARMED_TIMEOUT_MS }).then(
+    async (chooser) => {
+      if (!take()) return;
+      try {
+        await chooser.setFiles(files);
+        session.dialogNotices.push(
+          `Set ${files.map((file) => file.name).join(", ")} on a file chooser`,
+        );
+      } catch (error) {
+        session.dialogNotices.push(
+          `Could not set files on a file chooser: ${report(error)}`,
+        );
+      }
+    },
+    (error) => {
+      if (!take()) return;
+      session.dialogNotices.push(
+        `Files for the next file chooser were not used: ${report(error)}`,
+      );
+    },
+  );
+  return ARMED_TIMEOUT_MS / 1000;
+}